@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { CaptionFormat } from '@/types/video';
+import { ApiError } from '@/lib/errors';
+import { CACHE_STATUS_HEADER, getCachedVideoInfo } from '@/lib/server/infoCache';
+import { CAPTION_MIME_TYPES, fetchCaptionCues, formatCaptions } from '@/lib/server/captions';
+import { withErrorHandling } from '@/lib/server/errors';
+import { contentDisposition, sanitizeFilename } from '@/lib/filename';
+
+export const GET = withErrorHandling('/api/captions', async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const trackId = searchParams.get('track');
+  const format = (searchParams.get('format') || 'srt') as CaptionFormat;
+
+  if (!videoId || !trackId) {
+    throw new ApiError('MISSING_PARAMS', 'Video ID and caption track are required');
+  }
+
+  if (!Object.hasOwn(CAPTION_MIME_TYPES, format)) {
+    throw new ApiError('INVALID_FORMAT', 'Caption format must be srt, vtt or txt');
+  }
+
+  const { info, cacheStatus } = await getCachedVideoInfo(videoId);
+
+  const cues = await fetchCaptionCues(info, trackId);
+  if (!cues) {
+    throw new ApiError('CAPTIONS_NOT_FOUND', 'This caption track is not available for the video');
+  }
+
+  const name = sanitizeFilename(info.videoDetails.title) || videoId;
+  const language = trackId.replace(/^a?\./, '');
+
+  return new NextResponse(formatCaptions(cues, format), {
+    status: 200,
+    headers: {
+      'Content-Type': CAPTION_MIME_TYPES[format],
+      'Content-Disposition': contentDisposition(`${name}.${language}.${format}`),
+      [CACHE_STATUS_HEADER]: cacheStatus,
+    },
+  });
+});
@@ -1,244 +1,207 @@
 import { NextRequest, NextResponse } from 'next/server';
 import ytdl from '@oreohq/ytdl-core';
+import { ApiError, codeForStatus } from '@/lib/errors';
+import { isForbiddenError, STREAM_REQUEST_OPTIONS } from '@/lib/server/youtube';
+import {
+  CACHE_STATUS_HEADER,
+  getCachedVideoInfo,
+  invalidateVideoInfo,
+  type CacheStatus,
+} from '@/lib/server/infoCache';
+import { formatContentRange, parseRange, type ByteRange } from '@/lib/range';
+import { withStreamLimit } from '@/lib/server/rateLimit';
+import { withErrorHandling } from '@/lib/server/errors';
+import { withProgress, type RequestProgress } from '@/lib/server/progress';
+
+// Fetch the format URL directly and pass the response through, forwarding the client's
+// Range header as-is; YouTube answers ranges and range errors itself
+async function proxyFormatUrl(
+  videoId: string,
+  format: ytdl.videoFormat,
+  range: string | null,
+  cacheStatus: CacheStatus
+): Promise<NextResponse> {
+  const headers: Record<string, string> = {
+    ...STREAM_REQUEST_OPTIONS.headers,
+    'Accept-Encoding': 'identity',
+  };
+
+  if (range) {
+    headers['Range'] = range;
+  }
 
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const videoId = searchParams.get('videoId');
-    const itag = searchParams.get('itag');
-
-    if (!videoId || !itag) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'MISSING_PARAMS',
-          message: 'Video ID and itag are required',
-        },
-        { status: 400 }
-      );
-    }
+  const response = await fetch(format.url, { headers });
 
-    // Get range header if present (for resumable downloads)
-    const range = request.headers.get('range');
-
-    // Get video info using ytdl-core with requestOptions (this generates URLs for the server's IP)
-    let info: ytdl.videoInfo;
-    try {
-      info = await ytdl.getInfo(videoId, {
-        requestOptions: {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-            'Accept-Language': 'en-US,en;q=0.9',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          },
-        },
-      });
-    } catch (error: any) {
-      // Handle signature parsing errors
-      if (error.message?.includes('n transform') || error.message?.includes('signature') || error.message?.includes('decipher')) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'SIGNATURE_ERROR',
-            message: 'YouTube signature parsing failed. Please try fetching the video info again or select a different format.',
-          },
-          { status: 500 }
-        );
-      }
-      
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'FETCH_ERROR',
-          message: 'Failed to fetch video information',
-        },
-        { status: 500 }
-      );
-    }
+  if (response.status === 416) {
+    throw new ApiError('RANGE_NOT_SATISFIABLE', 'Requested range is not valid for this file', {
+      'Content-Range': response.headers.get('content-range') || 'bytes */*',
+    });
+  }
 
-    // Find the requested format
-    const format = info.formats.find((f) => f.itag === parseInt(itag, 10));
-    if (!format) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'FORMAT_NOT_FOUND',
-          message: 'Requested format not found. It may have been filtered out (e.g., WebP formats are excluded).',
-        },
-        { status: 404 }
-      );
+  if (!response.ok) {
+    // The cached URL may have been revoked early; the next request fetches fresh info
+    if (response.status === 403) {
+      await invalidateVideoInfo(videoId);
     }
+    throw new ApiError(
+      codeForStatus(response.status),
+      `Failed to fetch video: ${response.statusText} (${response.status}). YouTube may be blocking server-side requests. Try selecting a combined format (video+audio) which uses native browser download.`
+    );
+  }
 
-    if (!format.url) {
-      // Format exists but URL is missing - likely signature decryption failed
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'NO_URL',
-          message: 'Format URL not available. This format may require signature decryption which failed. Please try a different format or fetch the video info again.',
-        },
-        { status: 404 }
-      );
-    }
-    
-    // Filter out WebP formats
-    if (format.mimeType?.includes('webp') || format.container === 'webp') {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'WEBP_NOT_SUPPORTED',
-          message: 'WebP formats are not supported. Please select an MP4 format.',
-        },
-        { status: 400 }
-      );
-    }
+  const contentType = response.headers.get('content-type') || format.mimeType || 'video/mp4';
+  // A partial response's length can't fall back to the full size
+  const contentLength =
+    response.headers.get('content-length') || (response.status === 200 ? format.contentLength : null);
+  const acceptRanges = response.headers.get('accept-ranges') || 'bytes';
+  const contentRange = response.headers.get('content-range');
+
+  const responseHeaders: HeadersInit = {
+    'Content-Type': contentType,
+    'Accept-Ranges': acceptRanges,
+    [CACHE_STATUS_HEADER]: cacheStatus,
+  };
+
+  if (contentLength) responseHeaders['Content-Length'] = contentLength;
+  if (contentRange) responseHeaders['Content-Range'] = contentRange;
+
+  const status = response.status === 206 ? 206 : 200;
+  return new NextResponse(response.body, {
+    status,
+    headers: responseHeaders,
+  });
+}
+
+// Each response holds one of the client's stream slots until it has been sent. With a
+// `progressId`, the steps and the transfer are published to /api/progress.
+export const GET = withErrorHandling('/api/download', (request: NextRequest) =>
+  withStreamLimit(request, () => withProgress(request, (progress) => handleDownload(request, progress)))
+);
 
-    // Use ytdl-core's downloadFromInfo which handles signature decryption and proper request handling
-    // This is more reliable than fetching the URL directly
-    try {
-      const videoStream = ytdl.downloadFromInfo(info, { 
-        format,
-        requestOptions: {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-            'Referer': 'https://www.youtube.com/',
-            'Origin': 'https://www.youtube.com',
-            'Accept': '*/*',
-            'Accept-Language': 'en-US,en;q=0.9',
-          },
-        },
+async function handleDownload(request: NextRequest, progress: RequestProgress): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const itag = searchParams.get('itag');
+
+  if (!videoId || !itag) {
+    throw new ApiError('MISSING_PARAMS', 'Video ID and itag are required');
+  }
+
+  // Byte range from the Range header (resumed downloads) or from start/end query
+  // parameters (inclusive offsets, used by the segmented downloader)
+  const start = searchParams.get('start');
+  const end = searchParams.get('end');
+  if ((start !== null && !/^\d+$/.test(start)) || (end !== null && !/^\d+$/.test(end))) {
+    throw new ApiError('INVALID_RANGE', 'Start and end must be byte offsets');
+  }
+  const range = start !== null || end !== null
+    ? `bytes=${start ?? '0'}-${end ?? ''}`
+    : request.headers.get('range');
+
+  // Get video info using ytdl-core with requestOptions (this generates URLs for the server's IP)
+  progress.report({ stage: 'fetching', progress: 0, message: 'Fetching video information...' });
+  const { info, cacheStatus } = await getCachedVideoInfo(videoId);
+
+  // Find the requested format
+  const format = info.formats.find((f) => f.itag === parseInt(itag, 10));
+  if (!format) {
+    throw new ApiError(
+      'FORMAT_NOT_FOUND',
+      'Requested format not found. It may have been filtered out (e.g., WebP formats are excluded).'
+    );
+  }
+
+  if (!format.url) {
+    // Format exists but URL is missing - likely signature decryption failed
+    throw new ApiError(
+      'NO_URL',
+      'Format URL not available. This format may require signature decryption which failed. Please try a different format or fetch the video info again.'
+    );
+  }
+
+  // Filter out WebP formats
+  if (format.mimeType?.includes('webp') || format.container === 'webp') {
+    throw new ApiError('WEBP_NOT_SUPPORTED', 'WebP formats are not supported. Please select an MP4 format.');
+  }
+
+  // Resolve the requested byte range against the format size. Without a known size the
+  // range can't be checked here, so YouTube answers it directly.
+  const totalSize = format.contentLength ? parseInt(format.contentLength, 10) : null;
+  progress.report({ stage: 'downloading', progress: 0, message: 'Streaming from YouTube...' });
+  if (range && totalSize === null) {
+    return proxyFormatUrl(videoId, format, range, cacheStatus);
+  }
+
+  let byteRange: ByteRange | undefined;
+  if (range && totalSize !== null) {
+    const parsed = parseRange(range, totalSize);
+    if (!parsed) {
+      throw new ApiError('RANGE_NOT_SATISFIABLE', `Requested range is not valid for a ${totalSize}-byte file`, {
+        'Content-Range': `bytes */${totalSize}`,
       });
+    }
+    byteRange = parsed;
+  }
 
-      // Get content type from format
-      const contentType = format.mimeType || 'video/mp4';
-      const contentLength = format.contentLength;
-
-      // Prepare response headers
-      const responseHeaders: HeadersInit = {
-        'Content-Type': contentType,
-        'Accept-Ranges': 'bytes',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-        'Access-Control-Allow-Headers': 'Range',
-        'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Accept-Ranges',
-      };
-
-      // Forward content length if available
-      if (contentLength) {
-        responseHeaders['Content-Length'] = contentLength;
-      }
-
-      // Handle range requests
-      if (range) {
-        responseHeaders['Content-Range'] = range;
-        return new NextResponse(videoStream as any, {
-          status: 206,
-          headers: responseHeaders,
-        });
-      }
-
-      // Stream the response back to the client using ytdl-core's stream
+  // Use ytdl-core's downloadFromInfo which handles signature decryption and proper request handling
+  // This is more reliable than fetching the URL directly
+  try {
+    const videoStream = ytdl.downloadFromInfo(info, { 
+      format,
+      requestOptions: STREAM_REQUEST_OPTIONS,
+      range: byteRange,
+    });
+
+    // Get content type from format
+    const contentType = format.mimeType || 'video/mp4';
+
+    // Prepare response headers
+    const responseHeaders: HeadersInit = {
+      'Content-Type': contentType,
+      'Accept-Ranges': 'bytes',
+      [CACHE_STATUS_HEADER]: cacheStatus,
+    };
+
+    // Handle range requests
+    if (byteRange && totalSize !== null) {
+      responseHeaders['Content-Length'] = String(byteRange.end - byteRange.start + 1);
+      responseHeaders['Content-Range'] = formatContentRange(byteRange, totalSize);
       return new NextResponse(videoStream as any, {
-        status: 200,
+        status: 206,
         headers: responseHeaders,
       });
-    } catch (streamError: any) {
-      // Check if it's a 403 error (YouTube blocking)
-      if (streamError?.statusCode === 403 || streamError?.cause?.statusCode === 403 || streamError?.message?.includes('403')) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'ACCESS_DENIED',
-            message: 'YouTube is blocking this request (403 Forbidden). This may be due to YouTube\'s anti-bot measures. Please try: 1) Selecting a combined format (video+audio) which uses native browser download, 2) Waiting a few minutes and trying again, or 3) The ytdl-core library may need an update to handle YouTube\'s latest changes.',
-          },
-          { status: 403 }
-        );
-      }
-      
-      // Fallback to direct URL fetch if downloadFromInfo fails (but format.url exists)
-      if (format.url) {
-        const headers: HeadersInit = {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-          'Referer': 'https://www.youtube.com/',
-          'Origin': 'https://www.youtube.com',
-          'Accept': '*/*',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'identity',
-        };
-
-        if (range) {
-          headers['Range'] = range;
-        }
-
-        const response = await fetch(format.url, { headers });
-
-        if (!response.ok) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'FETCH_ERROR',
-              message: `Failed to fetch video: ${response.statusText} (${response.status}). YouTube may be blocking server-side requests. Try selecting a combined format (video+audio) which uses native browser download.`,
-            },
-            { status: response.status }
-          );
-        }
-
-        const contentType = response.headers.get('content-type') || format.mimeType || 'video/mp4';
-        const contentLength = response.headers.get('content-length') || format.contentLength;
-        const acceptRanges = response.headers.get('accept-ranges') || 'bytes';
-        const contentRange = response.headers.get('content-range');
-
-        const responseHeaders: HeadersInit = {
-          'Content-Type': contentType,
-          'Accept-Ranges': acceptRanges,
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-          'Access-Control-Allow-Headers': 'Range',
-          'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Accept-Ranges',
-        };
-
-        if (contentLength) responseHeaders['Content-Length'] = contentLength;
-        if (contentRange) responseHeaders['Content-Range'] = contentRange;
-
-        const status = response.status === 206 ? 206 : 200;
-        return new NextResponse(response.body, {
-          status,
-          headers: responseHeaders,
-        });
-      }
-      
-      // If we get here, both methods failed
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'DOWNLOAD_FAILED',
-          message: `Download failed: ${streamError?.message || 'Unknown error'}. This format may not be available. Please try selecting a combined format (video+audio) or a different quality.`,
-        },
-        { status: 500 }
+    }
+
+    // Forward content length if available
+    if (format.contentLength) {
+      responseHeaders['Content-Length'] = format.contentLength;
+    }
+
+    // Stream the response back to the client using ytdl-core's stream
+    return new NextResponse(videoStream as any, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  } catch (streamError: any) {
+    // Check if it's a 403 error (YouTube blocking)
+    if (isForbiddenError(streamError)) {
+      await invalidateVideoInfo(videoId);
+      throw new ApiError(
+        'ACCESS_DENIED',
+        'YouTube is blocking this request (403 Forbidden). This may be due to YouTube\'s anti-bot measures. Please try: 1) Selecting a combined format (video+audio) which uses native browser download, 2) Waiting a few minutes and trying again, or 3) The ytdl-core library may need an update to handle YouTube\'s latest changes.'
       );
     }
-  } catch (error: any) {
-    console.error('Error in /api/download:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'INTERNAL_ERROR',
-        message: error.message || 'An unexpected error occurred while downloading the video',
-      },
-      { status: 500 }
+
+    // Fallback to direct URL fetch if downloadFromInfo fails (but format.url exists)
+    if (format.url) {
+      progress.report({ stage: 'downloading', progress: 0, message: 'Streaming failed; fetching the format URL instead...' });
+      return proxyFormatUrl(videoId, format, range, cacheStatus);
+    }
+
+    // If we get here, both methods failed
+    throw new ApiError(
+      'DOWNLOAD_FAILED',
+      `Download failed: ${streamError?.message || 'Unknown error'}. This format may not be available. Please try selecting a combined format (video+audio) or a different quality.`
     );
   }
 }
-
-// Handle OPTIONS request for CORS preflight
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-      'Access-Control-Allow-Headers': 'Range, Content-Type',
-      'Access-Control-Max-Age': '86400',
-    },
-  });
-}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { HistoryResponse } from '@/types/api';
+import { ApiError } from '@/lib/errors';
+import { addHistoryEntries, deleteHistoryEntry, getHistory, parseHistoryEntry } from '@/lib/server/history';
+import { withErrorHandling } from '@/lib/server/errors';
+
+// Histories are files on the local filesystem
+export const runtime = 'nodejs';
+
+// Most a browser uploads at once, on its first sync
+const MAX_UPLOAD = 1000;
+
+// The synced history for `syncId`, including the ids of deleted entries
+export const GET = withErrorHandling('/api/history', async (request: NextRequest) => {
+  const syncId = request.nextUrl.searchParams.get('syncId') || '';
+  return NextResponse.json<HistoryResponse>(
+    { success: true, data: await getHistory(syncId) },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+});
+
+// Add `{ syncId, entries }` to a synced history
+export const POST = withErrorHandling('/api/history', async (request: NextRequest) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError('INVALID_BODY', 'Body must be JSON');
+  }
+  if (typeof body?.syncId !== 'string' || !Array.isArray(body.entries) || body.entries.length > MAX_UPLOAD) {
+    throw new ApiError('INVALID_BODY', `Body must be { syncId, entries } with at most ${MAX_UPLOAD} entries`);
+  }
+
+  const entries = body.entries.map(parseHistoryEntry);
+  return NextResponse.json<HistoryResponse>({ success: true, data: await addHistoryEntries(body.syncId, entries) });
+});
+
+// Remove entry `id` from a synced history
+export const DELETE = withErrorHandling('/api/history', async (request: NextRequest) => {
+  const syncId = request.nextUrl.searchParams.get('syncId') || '';
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    throw new ApiError('MISSING_PARAMS', 'Entry id is required');
+  }
+  return NextResponse.json<HistoryResponse>({ success: true, data: await deleteHistoryEntry(syncId, id) });
+});
@@ -0,0 +1,51 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { contentDisposition } from '@/lib/filename';
+import { formatContentRange, parseRange } from '@/lib/range';
+import { ApiError } from '@/lib/errors';
+import { getJobResult } from '@/lib/server/jobs';
+import { withErrorHandling } from '@/lib/server/errors';
+
+export const runtime = 'nodejs';
+
+// The file a complete job produced. Range requests are answered, so interrupted
+// downloads can resume.
+export const GET = withErrorHandling(
+  '/api/jobs/[id]/result',
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const { id } = await params;
+    const { job, path } = await getJobResult(id);
+    const { filename, contentType, size } = job.result!;
+
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Content-Disposition': contentDisposition(filename),
+      'Accept-Ranges': 'bytes',
+    };
+
+    const rangeHeader = request.headers.get('range');
+    if (rangeHeader) {
+      const range = parseRange(rangeHeader, size);
+      if (!range) {
+        throw new ApiError('RANGE_NOT_SATISFIABLE', `Requested range is not valid for a ${size}-byte file`, {
+          'Content-Range': `bytes */${size}`,
+        });
+      }
+      const stream = createReadStream(path, { start: range.start, end: range.end });
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Length': String(range.end - range.start + 1),
+          'Content-Range': formatContentRange(range, size),
+        },
+      });
+    }
+
+    return new NextResponse(Readable.toWeb(createReadStream(path)) as ReadableStream, {
+      status: 200,
+      headers: { ...headers, 'Content-Length': String(size) },
+    });
+  }
+);
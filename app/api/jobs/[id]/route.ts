@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { JobResponse } from '@/types/api';
+import { cancelJob, getJob } from '@/lib/server/jobs';
+import { withErrorHandling } from '@/lib/server/errors';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ id: string }> };
+
+// A job's status and progress
+export const GET = withErrorHandling('/api/jobs/[id]', async (_request: NextRequest, { params }: Context) => {
+  const { id } = await params;
+  return NextResponse.json<JobResponse>(
+    { success: true, data: await getJob(id) },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+});
+
+// Cancel a queued or running job, or delete a finished one and its file
+export const DELETE = withErrorHandling('/api/jobs/[id]', async (_request: NextRequest, { params }: Context) => {
+  const { id } = await params;
+  return NextResponse.json<JobResponse>({ success: true, data: await cancelJob(id) });
+});
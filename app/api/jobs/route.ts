@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { JobResponse } from '@/types/api';
+import { ApiError } from '@/lib/errors';
+import { createJob } from '@/lib/server/jobs';
+import { withErrorHandling } from '@/lib/server/errors';
+
+// Jobs write to the local filesystem and spawn ffmpeg
+export const runtime = 'nodejs';
+
+// Start a background download from `{ videoId, itags, options }`. Poll the job's URL for
+// progress; once it is complete, its result URL serves the file.
+export const POST = withErrorHandling('/api/jobs', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError('INVALID_BODY', 'Body must be JSON');
+  }
+
+  // Links point to the versioned routes when the job was created through them
+  const basePath = request.nextUrl.pathname.startsWith('/api/v1/') ? '/api/v1' : '/api';
+  const job = await createJob(body, basePath);
+  return NextResponse.json<JobResponse>(
+    { success: true, data: job },
+    { status: 202, headers: { Location: `${basePath}/jobs/${job.id}` } }
+  );
+});
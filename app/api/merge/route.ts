@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CONTAINER_MIME_TYPES, type MergeContainer } from '@/lib/ffmpegArgs';
+import { contentDisposition, sanitizeFilename } from '@/lib/filename';
+import { ApiError } from '@/lib/errors';
+import { findMergeFormats, isMergeAvailable, prepareMerge, startMerge } from '@/lib/server/merge';
+import { withStreamLimit } from '@/lib/server/rateLimit';
+import { CACHE_STATUS_HEADER, getCachedVideoInfo } from '@/lib/server/infoCache';
+import { withErrorHandling } from '@/lib/server/errors';
+import { withProgress, type RequestProgress } from '@/lib/server/progress';
+
+// Spawns the native ffmpeg binary
+export const runtime = 'nodejs';
+
+// Each response holds one of the client's stream slots until it has been sent. With a
+// `progressId`, the steps and the transfer are published to /api/progress.
+export const GET = withErrorHandling('/api/merge', (request: NextRequest) =>
+  withStreamLimit(request, () => withProgress(request, (progress) => handleMerge(request, progress)))
+);
+
+async function handleMerge(request: NextRequest, progress: RequestProgress): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const itag = searchParams.get('itag');
+  const audioItag = searchParams.get('audioItag');
+  // Without a container, one is chosen from the codecs
+  const container = (searchParams.get('container') || undefined) as MergeContainer | undefined;
+
+  if (!videoId || !itag) {
+    throw new ApiError('MISSING_PARAMS', 'Video ID and itag are required');
+  }
+
+  if (container !== undefined && !Object.hasOwn(CONTAINER_MIME_TYPES, container)) {
+    throw new ApiError('INVALID_CONTAINER', 'Container must be mp4, webm or mkv');
+  }
+
+  if (!isMergeAvailable()) {
+    throw new ApiError('FFMPEG_UNAVAILABLE', 'Server-side merging is not available on this deployment');
+  }
+
+  progress.report({ stage: 'fetching', progress: 0, message: 'Fetching video information...' });
+  const { info, cacheStatus } = await getCachedVideoInfo(videoId);
+
+  // Find the requested video format and the requested audio, or the audio that pairs best with it
+  const { videoFormat, audioFormat, container: outputContainer, copyAudio } = findMergeFormats(
+    info,
+    parseInt(itag, 10),
+    audioItag ? parseInt(audioItag, 10) : undefined,
+    container
+  );
+
+  // Optional clip range in seconds, comma-separated caption track IDs to embed as soft
+  // subtitles, chapter markers and tags
+  const start = searchParams.get('start');
+  const end = searchParams.get('end');
+  const mergeOptions = await prepareMerge(info, outputContainer, {
+    start: start !== null ? parseFloat(start) : undefined,
+    end: end !== null ? parseFloat(end) : undefined,
+    captionIds: searchParams.get('captions')?.split(',').filter(Boolean),
+    chapters: searchParams.get('chapters') === '1',
+    metadata: searchParams.get('metadata') === '1',
+  });
+
+  progress.report({ stage: 'merging', progress: 0, message: 'Merging on the server...' });
+  // The merged size is unknown until ffmpeg finishes; the inputs' size is close enough
+  progress.expectedBytes =
+    parseInt(videoFormat.contentLength || '0', 10) + parseInt(audioFormat.contentLength || '0', 10) || undefined;
+  const output = await startMerge(info, videoFormat, audioFormat, { ...mergeOptions, copyAudio, signal: request.signal });
+  // The client renders the filename template; without one, fall back to the title
+  const requestedFilename = searchParams.get('filename');
+  const filename = requestedFilename
+    ? sanitizeFilename(requestedFilename)
+    : `${sanitizeFilename(info.videoDetails.title) || videoId}.${outputContainer}`;
+
+  // Length is unknown until ffmpeg finishes, so the response is chunked
+  return new NextResponse(output as any, {
+    status: 200,
+    headers: {
+      'Content-Type': CONTAINER_MIME_TYPES[outputContainer],
+      'Content-Disposition': contentDisposition(filename),
+      'Cache-Control': 'no-store',
+      [CACHE_STATUS_HEADER]: cacheStatus,
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { PlaylistInfoResponse } from '@/types/video';
+import { extractChannelPath, extractPlaylistId } from '@/lib/youtubeUrl';
+import { ApiError } from '@/lib/errors';
+import { fetchPlaylist, resolveChannelUploads } from '@/lib/server/playlist';
+import { withErrorHandling } from '@/lib/server/errors';
+
+export const GET = withErrorHandling('/api/playlist', async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const url = searchParams.get('url');
+
+  if (!url) {
+    throw new ApiError('MISSING_URL', 'Playlist or channel URL is required');
+  }
+
+  // Playlist URLs take precedence; channel URLs resolve to the channel's uploads playlist
+  const playlistId = extractPlaylistId(url);
+  const channelPath = playlistId ? null : extractChannelPath(url);
+  if (!playlistId && !channelPath) {
+    throw new ApiError('INVALID_URL', 'Invalid YouTube playlist or channel URL');
+  }
+
+  const resolvedId = playlistId || (await resolveChannelUploads(channelPath!));
+  const playlist = await fetchPlaylist(resolvedId);
+
+  if (playlist.entries.length === 0) {
+    throw new ApiError('PLAYLIST_EMPTY', 'This playlist has no downloadable videos');
+  }
+
+  return NextResponse.json<PlaylistInfoResponse>({
+    success: true,
+    data: playlist,
+  });
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors';
+import { PROGRESS_ID_PATTERN, subscribeProgress } from '@/lib/server/progress';
+import { withErrorHandling } from '@/lib/server/errors';
+
+export const runtime = 'nodejs';
+
+// Comments sent this often keep proxies from closing a quiet connection
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+// Server-Sent Events for the request started with `progressId=<id>`: `progress` events
+// carrying a DownloadProgress, then one `end` event, after which the stream closes
+export const GET = withErrorHandling('/api/progress', async (request: NextRequest) => {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id || !PROGRESS_ID_PATTERN.test(id)) {
+    throw new ApiError('MISSING_PARAMS', 'An id of 8-64 letters, digits, "-" or "_" is required');
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(': keep-alive\n\n')), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+      };
+
+      // The latest message is replayed straight away, possibly the end
+      unsubscribe = subscribeProgress(id, (message) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`));
+        if (message.event === 'end') {
+          cleanup();
+          controller.close();
+        }
+      });
+      if (closed) {
+        unsubscribe();
+      }
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      // Stops nginx from buffering the events
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors';
+import { STREAM_REQUEST_OPTIONS } from '@/lib/server/youtube';
+import { withErrorHandling } from '@/lib/server/errors';
+
+// Proxies a video thumbnail so the browser can embed it as cover art; YouTube's image
+// hosts don't send CORS headers. Only YouTube image hosts are fetched.
+const THUMBNAIL_HOSTS = ['i.ytimg.com', 'i9.ytimg.com', 'img.youtube.com'];
+
+function parseThumbnailUrl(url: string): URL | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && THUMBNAIL_HOSTS.includes(parsed.hostname) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export const GET = withErrorHandling('/api/thumbnail', async (request: NextRequest) => {
+  const url = request.nextUrl.searchParams.get('url');
+
+  if (!url) {
+    throw new ApiError('MISSING_URL', 'Thumbnail URL is required');
+  }
+
+  const thumbnailUrl = parseThumbnailUrl(url);
+  if (!thumbnailUrl) {
+    throw new ApiError('INVALID_URL', 'Only YouTube thumbnail URLs are supported');
+  }
+
+  const response = await fetch(thumbnailUrl, { headers: STREAM_REQUEST_OPTIONS.headers });
+  if (!response.ok) {
+    throw new ApiError('THUMBNAIL_NOT_FOUND', `Failed to fetch thumbnail: ${response.statusText} (${response.status})`);
+  }
+
+  return new NextResponse(await response.arrayBuffer(), {
+    status: 200,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || 'image/jpeg',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+});
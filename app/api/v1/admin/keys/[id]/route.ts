@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors';
+import { withErrorHandling } from '@/lib/server/errors';
+import { requireAdmin, revokeApiKey } from '@/lib/server/apiKeys';
+
+// Revoke a key created through the admin route. Keys from API_KEYS are removed by
+// changing the configuration.
+export const DELETE = withErrorHandling(
+  '/api/v1/admin/keys/[id]',
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    requireAdmin(request);
+
+    const { id } = await params;
+    if (!(await revokeApiKey(id))) {
+      throw new ApiError(
+        'KEY_NOT_FOUND',
+        id.startsWith('config-') ? 'Keys from API_KEYS can only be removed from the configuration' : 'No API key with this id'
+      );
+    }
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiKeyListResponse, ApiKeyResponse } from '@/types/api';
+import { ApiError } from '@/lib/errors';
+import { withErrorHandling } from '@/lib/server/errors';
+import { createApiKey, listApiKeys, requireAdmin } from '@/lib/server/apiKeys';
+
+const MAX_NAME_LENGTH = 100;
+
+// List API keys (without the keys themselves)
+export const GET = withErrorHandling('/api/v1/admin/keys', async (request: NextRequest) => {
+  requireAdmin(request);
+  return NextResponse.json<ApiKeyListResponse>({ success: true, data: await listApiKeys() });
+});
+
+// Create a key from `{ "name": "..." }`. The response is the only time the key is shown.
+export const POST = withErrorHandling('/api/v1/admin/keys', async (request: NextRequest) => {
+  requireAdmin(request);
+
+  let name: unknown;
+  try {
+    ({ name } = await request.json());
+  } catch {
+    name = undefined;
+  }
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    throw new ApiError('INVALID_BODY', `Body must be JSON with a "name" of 1-${MAX_NAME_LENGTH} characters`);
+  }
+
+  return NextResponse.json<ApiKeyResponse>({ success: true, data: await createApiKey(name.trim()) }, { status: 201 });
+});
@@ -0,0 +1,2 @@
+// Versioned alias of /api/info for API clients; see proxy.ts for authentication
+export { GET } from '@/app/api/info/route';
@@ -0,0 +1,5 @@
+// Versioned alias of /api/jobs/[id] for API clients; see proxy.ts for authentication
+export { GET, DELETE } from '@/app/api/jobs/[id]/route';
+
+// Route segment config has to be declared in this file, not re-exported
+export const runtime = 'nodejs';
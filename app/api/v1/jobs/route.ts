@@ -0,0 +1,5 @@
+// Versioned alias of /api/jobs for API clients; see proxy.ts for authentication
+export { POST } from '@/app/api/jobs/route';
+
+// Route segment config has to be declared in this file, not re-exported
+export const runtime = 'nodejs';
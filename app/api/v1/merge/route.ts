@@ -0,0 +1,5 @@
+// Versioned alias of /api/merge for API clients; see proxy.ts for authentication
+export { GET } from '@/app/api/merge/route';
+
+// Route segment config has to be declared in this file, not re-exported
+export const runtime = 'nodejs';
@@ -0,0 +1,2 @@
+// Versioned alias of /api/playlist for API clients; see proxy.ts for authentication
+export { GET } from '@/app/api/playlist/route';
@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import type { AudioOptions, AudioTarget } from '@/types/video';
+import { AUDIO_BITRATES, AUDIO_TARGETS } from '@/lib/ffmpegArgs';
+
+interface AudioOptionsSelectorProps {
+  options: AudioOptions;
+  onChange: (options: AudioOptions) => void;
+  className?: string;
+}
+
+export default function AudioOptionsSelector({ options, onChange, className = '' }: AudioOptionsSelectorProps) {
+  const lossless = AUDIO_TARGETS[options.target].lossless;
+
+  return (
+    <div className={`flex gap-4 ${className}`}>
+      <div className="flex-1">
+        <label
+          htmlFor="audio-target"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          Audio Format
+        </label>
+        <select
+          id="audio-target"
+          value={options.target}
+          onChange={(e) => onChange({ ...options, target: e.target.value as AudioTarget })}
+          className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        >
+          {(Object.keys(AUDIO_TARGETS) as AudioTarget[]).map((target) => (
+            <option key={target} value={target}>
+              {AUDIO_TARGETS[target].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex-1">
+        <label
+          htmlFor="audio-bitrate"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          Bitrate
+        </label>
+        <select
+          id="audio-bitrate"
+          value={options.bitrate}
+          disabled={lossless}
+          onChange={(e) => onChange({ ...options, bitrate: parseInt(e.target.value, 10) })}
+          className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50"
+        >
+          {AUDIO_BITRATES.map((bitrate) => (
+            <option key={bitrate} value={bitrate}>
+              {lossless ? 'Lossless' : `${bitrate} kbps`}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
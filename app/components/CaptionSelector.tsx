@@ -0,0 +1,81 @@
+'use client';
+
+import React from 'react';
+import type { CaptionFormat, CaptionTrack } from '@/types/video';
+
+interface CaptionSelectorProps {
+  videoId: string;
+  tracks: CaptionTrack[];
+  // Tracks to embed as soft subtitles
+  selected: CaptionTrack[];
+  onChange: (selected: CaptionTrack[]) => void;
+  // Embedding needs a video format; audio-only downloads can still save caption files
+  canEmbed: boolean;
+  className?: string;
+}
+
+const CAPTION_FORMATS: { value: CaptionFormat; label: string }[] = [
+  { value: 'srt', label: 'SRT' },
+  { value: 'vtt', label: 'VTT' },
+  { value: 'txt', label: 'TXT' },
+];
+
+export default function CaptionSelector({
+  videoId,
+  tracks,
+  selected,
+  onChange,
+  canEmbed,
+  className = '',
+}: CaptionSelectorProps) {
+  const selectedIds = new Set(selected.map((track) => track.id));
+
+  const toggle = (track: CaptionTrack) => {
+    onChange(
+      selectedIds.has(track.id)
+        ? selected.filter((t) => t.id !== track.id)
+        : [...selected, track]
+    );
+  };
+
+  return (
+    <div className={className}>
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Subtitles
+      </span>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {tracks.map((track) => (
+          <li key={track.id} className="flex items-center gap-3 px-3 py-2">
+            <label className="flex flex-1 items-center gap-2 text-sm text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(track.id)}
+                onChange={() => toggle(track)}
+                disabled={!canEmbed}
+              />
+              {track.name}
+              {track.autoGenerated && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">(auto-generated)</span>
+              )}
+            </label>
+            <div className="flex gap-2">
+              {CAPTION_FORMATS.map((format) => (
+                <a
+                  key={format.value}
+                  href={`/api/captions?videoId=${encodeURIComponent(videoId)}&track=${encodeURIComponent(track.id)}&format=${format.value}`}
+                  download
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {format.label}
+                </a>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        Checked tracks are embedded as selectable subtitles; the links save a track as a separate file.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import type { Chapter, DownloadOptions } from '@/types/video';
+import { formatDuration } from '@/lib/formats';
+
+type ChapterMode = DownloadOptions['chapterMode'];
+
+interface ChapterSelectorProps {
+  chapters: Chapter[];
+  // undefined downloads the file without chapter markers
+  mode: ChapterMode;
+  onChange: (mode: ChapterMode) => void;
+  className?: string;
+}
+
+const CHAPTER_MODES: { value: ChapterMode; label: string }[] = [
+  { value: undefined, label: 'Ignore' },
+  { value: 'embed', label: 'Add chapter markers' },
+  { value: 'split', label: 'One file per chapter' },
+];
+
+export default function ChapterSelector({ chapters, mode, onChange, className = '' }: ChapterSelectorProps) {
+  return (
+    <div className={className}>
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Chapters ({chapters.length})
+      </span>
+      <div className="flex flex-wrap gap-4 mb-2">
+        {CHAPTER_MODES.map((option) => (
+          <label
+            key={option.label}
+            className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100"
+          >
+            <input
+              type="radio"
+              name="chapter-mode"
+              checked={mode === option.value}
+              onChange={() => onChange(option.value)}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <ol className="max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {chapters.map((chapter) => (
+          <li key={chapter.start} className="flex gap-3 px-3 py-2 text-sm">
+            <span className="font-mono text-gray-500 dark:text-gray-400">{formatDuration(chapter.start)}</span>
+            <span className="text-gray-900 dark:text-gray-100">{chapter.title}</span>
+          </li>
+        ))}
+      </ol>
+      {mode === 'split' && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Each chapter is saved as its own file, one after another. Your browser may ask to allow multiple downloads.
+        </p>
+      )}
+    </div>
+  );
+}
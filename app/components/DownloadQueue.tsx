@@ -0,0 +1,171 @@
+'use client';
+
+import React from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import type { DownloadAttempt, DownloadJob } from '@/types/video';
+import { AUDIO_TARGETS } from '@/lib/ffmpegArgs';
+import { tipFor } from '@/lib/errors';
+import { RECOVERY_STEP_LABELS } from '@/lib/client/recovery';
+import ProgressBar from './ProgressBar';
+
+interface DownloadQueueProps {
+  jobs: DownloadJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  className?: string;
+}
+
+const MAX_CONCURRENCY = 4;
+
+const statusLabels: Record<DownloadJob['status'], string> = {
+  queued: 'Queued',
+  active: 'Downloading',
+  complete: 'Complete',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function describeAttempt({ step, format }: DownloadAttempt): string {
+  const action = step === 'initial' ? 'Download' : RECOVERY_STEP_LABELS[step];
+  const quality = format.hasVideo
+    ? `${format.qualityLabel || `${format.height || '?'}p`} ${format.container.toUpperCase()}`
+    : `${format.container.toUpperCase()} audio`;
+  return `${action} · ${quality}`;
+}
+
+export default function DownloadQueue({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  className = '',
+}: DownloadQueueProps) {
+  const hasFinished = jobs.some((job) => job.status !== 'queued' && job.status !== 'active');
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Downloads
+        </h3>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            Parallel downloads
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+              className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-gray-100"
+            >
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </label>
+          {hasFinished && (
+            <button
+              onClick={onClearFinished}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {jobs.map((job) => {
+          const format = job.info ? job.format : null;
+          let formatLabel = 'Pending';
+          if (format && !format.hasVideo) {
+            formatLabel = `Audio ${AUDIO_TARGETS[job.options.audio.target].label}`;
+          } else if (format) {
+            formatLabel = `${format.qualityLabel || `${format.height || '?'}p`} ${format.container.toUpperCase()}`;
+          }
+          const tip = job.error && tipFor(job.error.code, job.format);
+
+          return (
+            <li
+              key={job.id}
+              className="flex gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+            >
+              <img src={job.thumbnail} alt={job.title} className="w-20 h-12 object-cover rounded" />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {job.title}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatLabel} · {statusLabels[job.status]}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button
+                        onClick={() => onRetry(job.id)}
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                        aria-label="Retry download"
+                      >
+                        <RotateCcw className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() =>
+                        job.status === 'queued' || job.status === 'active' ? onCancel(job.id) : onRemove(job.id)
+                      }
+                      className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                      aria-label={job.status === 'queued' || job.status === 'active' ? 'Cancel download' : 'Remove from list'}
+                    >
+                      <X className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                    </button>
+                  </div>
+                </div>
+
+                {job.status === 'active' && (
+                  <ProgressBar
+                    progress={job.progress.progress}
+                    label={job.progress.message}
+                    stage={job.progress.stage}
+                    speed={job.progress.speed}
+                    eta={job.progress.eta}
+                    className="mt-2"
+                  />
+                )}
+                {job.status === 'complete' && job.progress.message && (
+                  <p className="mt-1 text-xs text-green-700 dark:text-green-400">{job.progress.message}</p>
+                )}
+                {job.attempts && job.attempts.length > 1 && (
+                  <ol className="mt-1 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                    {job.attempts.map((attempt, i) => (
+                      <li key={i}>
+                        Attempt {i + 1}: {describeAttempt(attempt)}
+                        {attempt.error && (
+                          <span className="text-red-600 dark:text-red-400"> · {attempt.error.code}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {job.status === 'failed' && job.error && (
+                  <p className="mt-1 text-xs text-red-700 dark:text-red-300">
+                    {job.error.message}
+                    {tip && <span className="block mt-1">💡 Tip: {tip}</span>}
+                  </p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { HistoryEntry } from '@/types/video';
+import { tipFor, toApiError } from '@/lib/errors';
+import {
+  createSyncId,
+  deleteHistoryEntry,
+  deleteSyncedEntry,
+  loadHistory,
+  pushHistoryEntries,
+  saveHistoryEntry,
+  syncHistory,
+} from '@/lib/client/history';
+import { loadPreferences, savePreferences } from '@/lib/client/preferences';
+import Downloader, { type DownloaderHandle } from './Downloader';
+import HistoryPanel from './HistoryPanel';
+
+function describeSyncError(error: unknown): string {
+  const apiError = toApiError(error, 'FETCH_ERROR');
+  const tip = tipFor(apiError.code);
+  return `History sync failed: ${apiError.message}${tip ? ` ${tip}` : ''}`;
+}
+
+// The downloader with the download history beside it. The history is kept here so
+// finished downloads can be added to it and past ones queued again.
+export default function DownloadWorkspace() {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [syncId, setSyncId] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const downloaderRef = useRef<DownloaderHandle>(null);
+
+  const sync = useCallback(async (id: string) => {
+    setSyncError(null);
+    try {
+      setHistory(await syncHistory(id, await loadHistory()));
+    } catch (error) {
+      setSyncError(describeSyncError(error));
+    }
+  }, []);
+
+  // IndexedDB and the sync code are only available after mounting
+  useEffect(() => {
+    const { historySyncId } = loadPreferences();
+    setSyncId(historySyncId);
+    loadHistory()
+      .then((entries) => {
+        setHistory(entries);
+        if (historySyncId) {
+          return sync(historySyncId);
+        }
+      })
+      .catch((error) => console.warn('Could not load download history:', error));
+  }, [sync]);
+
+  // Local changes are kept even if the server can't be reached; the next sync catches up
+  const addEntry = useCallback((entry: HistoryEntry) => {
+    setHistory((current) => [entry, ...current]);
+    saveHistoryEntry(entry).catch((error) => console.warn('Could not save download history:', error));
+    if (syncId) {
+      pushHistoryEntries(syncId, [entry]).catch((error) => setSyncError(describeSyncError(error)));
+    }
+  }, [syncId]);
+
+  const deleteEntry = useCallback((id: string) => {
+    setHistory((current) => current.filter((entry) => entry.id !== id));
+    deleteHistoryEntry(id).catch((error) => console.warn('Could not update download history:', error));
+    if (syncId) {
+      deleteSyncedEntry(syncId, id).catch((error) => setSyncError(describeSyncError(error)));
+    }
+  }, [syncId]);
+
+  const enableSync = useCallback((id = createSyncId()) => {
+    setSyncId(id);
+    savePreferences({ historySyncId: id });
+    sync(id);
+  }, [sync]);
+
+  const disableSync = useCallback(() => {
+    setSyncId(null);
+    setSyncError(null);
+    savePreferences({ historySyncId: null });
+  }, []);
+
+  const redownload = useCallback((entry: HistoryEntry) => {
+    downloaderRef.current?.redownload(entry);
+  }, []);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_20rem] items-start">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 md:p-8">
+        <Downloader ref={downloaderRef} history={history} onDownloaded={addEntry} />
+      </div>
+      <aside className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+        <HistoryPanel
+          entries={history}
+          onRedownload={redownload}
+          onDelete={deleteEntry}
+          syncId={syncId}
+          syncError={syncError}
+          onEnableSync={enableSync}
+          onDisableSync={disableSync}
+        />
+      </aside>
+    </div>
+  );
+}
@@ -1,32 +1,426 @@
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
 import axios from 'axios';
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import type { VideoInfo, VideoFormat, DownloadProgress } from '@/types/video';
-import ProgressBar from './ProgressBar';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
+import type {
+  VideoInfo,
+  VideoInfoResponse,
+  VideoFormat,
+  DownloadProgress,
+  DownloadJob,
+  DownloadAttempt,
+  DownloadOptions,
+  AudioOptions,
+  TrimRange,
+  CaptionTrack,
+  PlaylistInfo,
+  PlaylistInfoResponse,
+  DownloadDestination,
+  HistoryEntry,
+} from '@/types/video';
+import { extractStartTime, isCollectionUrl } from '@/lib/youtubeUrl';
+import {
+  audioCandidates,
+  findFallbackFormat,
+  formatDuration,
+  matchFormat,
+  pairFormats,
+  type FormatPairing,
+} from '@/lib/formats';
+import { ApiError, tipFor, toApiError } from '@/lib/errors';
+import {
+  buildAudioArgs,
+  buildMediaTags,
+  buildMergeArgs,
+  buildRemuxArgs,
+  AUDIO_TARGETS,
+  CONTAINER_MIME_TYPES,
+  type MediaTags,
+  type SubtitleInput,
+} from '@/lib/ffmpegArgs';
+import {
+  execWithProgress,
+  isFFmpegLoaded,
+  isKeyframeAt,
+  mountInputs,
+  preloadFFmpeg,
+  readOutputs,
+  removeFiles,
+  runExclusive,
+  unmountInputs,
+  writeSubtitleFiles,
+  type ExecProgress,
+  type OutputFile,
+  type SplitSegment,
+  type SubtitleFile,
+} from '@/lib/client/ffmpeg';
+import { buildChapterMetadata, chapterSegments } from '@/lib/chapters';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  filenameFieldsFor,
+  outputExtension,
+  renderFilename,
+  sanitizeFilename,
+} from '@/lib/filename';
+import { loadPreferences, savePreferences } from '@/lib/client/preferences';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET_ID,
+  presetFromFormat,
+  resolvePreset,
+  type QualityPreset,
+} from '@/lib/presets';
+import {
+  delay,
+  DownloadHttpError,
+  fetchResumableTo,
+  fetchSegmentedTo,
+  MemorySink,
+  type ByteSink,
+} from '@/lib/client/download';
+import {
+  canPickDestination,
+  canStreamToDisk,
+  createScratchFile,
+  openFileSink,
+  pickDestination,
+  writeToDestination,
+  type FileSink,
+  type ScratchFile,
+} from '@/lib/client/fileSink';
+import { backoffDelay, RECOVERY_STEP_LABELS, RECOVERY_STEPS } from '@/lib/client/recovery';
+import { createProgressId, watchServerProgress } from '@/lib/client/serverProgress';
+import { TransferRate } from '@/lib/transferRate';
+import { createHistoryEntry, findDuplicate, historyQuality } from '@/lib/client/history';
 import QualitySelector from './QualitySelector';
+import FormatTable from './FormatTable';
+import PresetSelector from './PresetSelector';
+import DownloadQueue from './DownloadQueue';
+import AudioOptionsSelector from './AudioOptionsSelector';
+import TrimSelector from './TrimSelector';
+import CaptionSelector from './CaptionSelector';
+import ChapterSelector from './ChapterSelector';
+import FilenameTemplateInput from './FilenameTemplateInput';
+
+// Lets the history panel queue downloads
+export interface DownloaderHandle {
+  redownload(entry: HistoryEntry): void;
+}
 
 interface DownloaderProps {
   className?: string;
+  ref?: React.Ref<DownloaderHandle>;
+  // Past downloads, for the duplicate warning
+  history?: HistoryEntry[];
+  onDownloaded?: (entry: HistoryEntry) => void;
+}
+
+type ProgressReporter = (progress: DownloadProgress) => void;
+
+// One stream's share of a job's progress. While a proxied stream hasn't started, the
+// message says what the server is doing.
+type StreamProgress = Omit<DownloadProgress, 'stage'>;
+
+// Report a stream's progress as the job's, mapped onto `from`..`from + span` percent
+function streamReporter(
+  report: ProgressReporter,
+  stage: DownloadProgress['stage'],
+  message: string,
+  from = 0,
+  span = 100
+): (update: StreamProgress) => void {
+  return ({ progress, message: serverMessage, speed, eta }) =>
+    report({ stage, progress: from + (progress * span) / 100, message: serverMessage || message, speed, eta });
+}
+
+// Optional processing applied while FFmpeg rewrites the file
+interface ProcessingExtras {
+  trim?: TrimRange;
+  subtitles?: SubtitleFile[];
+  // FFMETADATA chapter markers to embed
+  chapterMetadata?: string;
+  // Cut the finished file into these segments instead of saving it whole
+  segments?: SplitSegment[];
+  tags?: MediaTags;
+  cover?: Blob | null;
+  // Where to write the results; browser downloads when unset
+  destination?: DownloadDestination;
+  // Length of the output in seconds, for progress
+  duration?: number;
+  // Terminates FFmpeg when aborted
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Above this combined stream size, merging is done by /api/merge instead of ffmpeg.wasm,
+// which runs out of memory on long high-resolution videos
+const SERVER_MERGE_THRESHOLD = 500 * 1024 * 1024;
+
+// YouTube throttles each connection, so streams above this size are fetched as several
+// ranges at once
+const SEGMENTED_DOWNLOAD_THRESHOLD = 16 * 1024 * 1024;
+
+const DEFAULT_AUDIO_OPTIONS: AudioOptions = { target: 'mp3', bitrate: 192 };
+
+// Write the chapter markers and cover art a command reads, when there are any
+async function writeExtraInputs(ffmpeg: FFmpeg, chapterMetadata?: string, cover?: Blob | null) {
+  if (chapterMetadata) {
+    await ffmpeg.writeFile('chapters.txt', chapterMetadata);
+  }
+  if (cover) {
+    await ffmpeg.writeFile('cover.jpg', await fetchFile(cover));
+  }
+}
+
+// Remove a task's inputs and outputs, whether or not it succeeded, so failed jobs don't
+// leave files in FFmpeg's memory
+async function cleanUpFFmpeg(ffmpeg: FFmpeg, files: string[]) {
+  await unmountInputs(ffmpeg).catch(() => undefined);
+  await removeFiles(ffmpeg, [...files, 'chapters.txt', 'cover.jpg']);
+}
+
+// Report the main FFmpeg command's position in the output as 30-90% of the merging stage
+function ffmpegProgress(report: ProgressReporter, message: string, duration?: number): ExecProgress {
+  return {
+    duration,
+    onProgress: (fraction, time) =>
+      report({
+        stage: 'merging',
+        progress: 30 + fraction * 60,
+        message: `${message} ${formatDuration(time)} / ${formatDuration(duration!)}`,
+      }),
+  };
+}
+
+// Report cutting chapter files as 90-100% of the merging stage
+function segmentReporter(report: ProgressReporter, segments?: SplitSegment[]): (index: number) => void {
+  const count = segments?.length || 0;
+  return (index) =>
+    report({ stage: 'merging', progress: 90 + (index / count) * 10, message: `Splitting into chapters (${index + 1} of ${count})...` });
 }
 
-export default function Downloader({ className = '' }: DownloaderProps) {
+// Hand a finished blob to the browser as a file download
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Save several files one after another; browsers drop downloads triggered in the same tick
+async function saveOutputs(outputs: OutputFile[], destination?: DownloadDestination) {
+  if (destination) {
+    for (const output of outputs) {
+      await writeToDestination(destination, output.blob, output.filename);
+    }
+    return;
+  }
+
+  for (const [i, output] of outputs.entries()) {
+    if (i > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    saveBlob(output.blob, output.filename);
+  }
+}
+
+// Finish a file on disk, or discard it if the download failed
+async function writeToSink(sink: FileSink, write: () => Promise<void>) {
+  try {
+    await write();
+    await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+// Name of the file a download produces (before any split into chapters)
+function outputFilename(info: VideoInfo, format: VideoFormat, options: DownloadOptions): string {
+  const baseName = renderFilename(
+    options.filenameTemplate || DEFAULT_FILENAME_TEMPLATE,
+    filenameFieldsFor(info, format, options.audio, options.playlistIndex)
+  );
+  return `${baseName}.${outputExtension(format, options.audio, audioCandidates(info.formats, options.audioItag))}`;
+}
+
+function createJobId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Fetch full video information (including signed format URLs) for a URL or video ID
+async function requestVideoInfo(videoUrl: string): Promise<VideoInfo> {
+  const response = await axios.get<VideoInfoResponse>(`/api/info?url=${encodeURIComponent(videoUrl)}`);
+
+  if (!response.data.success || !response.data.data) {
+    throw new ApiError(response.data.error || 'FETCH_ERROR', response.data.message || 'Failed to fetch video information');
+  }
+
+  return response.data.data;
+}
+
+// Fetch caption tracks as SRT so they can be embedded as soft subtitles
+async function requestSubtitles(videoId: string, tracks: CaptionTrack[]): Promise<SubtitleFile[]> {
+  return Promise.all(
+    tracks.map(async (track) => {
+      const response = await axios.get<string>(
+        `/api/captions?videoId=${encodeURIComponent(videoId)}&track=${encodeURIComponent(track.id)}&format=srt`,
+        { responseType: 'text' }
+      );
+      return { track, srt: response.data };
+    })
+  );
+}
+
+// Fetch the thumbnail through /api/thumbnail for use as cover art. Cover art is a nice
+// extra, so a missing thumbnail doesn't fail the download.
+async function requestCover(thumbnail: string): Promise<Blob | null> {
+  try {
+    const response = await axios.get<Blob>(`/api/thumbnail?url=${encodeURIComponent(thumbnail)}`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  } catch (error) {
+    console.warn('Could not fetch thumbnail for cover art:', error);
+    return null;
+  }
+}
+
+export default function Downloader({ className = '', ref, history = [], onDownloaded }: DownloaderProps) {
   const [url, setUrl] = useState('');
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [playlist, setPlaylist] = useState<PlaylistInfo | null>(null);
+  const [selectedEntries, setSelectedEntries] = useState<Set<string>>(new Set());
   const [selectedFormat, setSelectedFormat] = useState<VideoFormat | null>(null);
-  const [progress, setProgress] = useState<DownloadProgress>({
-    stage: 'idle',
-    progress: 0,
-  });
+  const [selectedAudio, setSelectedAudio] = useState<VideoFormat | null>(null);
+  const [advancedFormats, setAdvancedFormats] = useState(false);
+  const [customPresets, setCustomPresets] = useState<QualityPreset[]>([]);
+  const [defaultPresetId, setDefaultPresetId] = useState(DEFAULT_PRESET_ID);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [audioOptions, setAudioOptions] = useState<AudioOptions>(DEFAULT_AUDIO_OPTIONS);
+  const [trim, setTrim] = useState<TrimRange | null>(null);
+  const [trimValid, setTrimValid] = useState(true);
+  const [urlStartTime, setUrlStartTime] = useState<number | null>(null);
+  const [embeddedCaptions, setEmbeddedCaptions] = useState<CaptionTrack[]>([]);
+  const [chapterMode, setChapterMode] = useState<DownloadOptions['chapterMode']>();
+  const [embedMetadata, setEmbedMetadata] = useState(true);
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [streamToDisk, setStreamToDisk] = useState(false);
+  const [streamingSupported, setStreamingSupported] = useState(false);
+  const [autoRetry, setAutoRetry] = useState(true);
+  const [jobs, setJobs] = useState<DownloadJob[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
-  const ffmpegRef = useRef<FFmpeg | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  // One AbortController per active job
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Jobs handed to the runner and not yet finished; also the count of busy transfer slots
+  const startedRef = useRef(new Set<string>());
+
+  // Preferences live in localStorage, which is only available after mounting
+  useEffect(() => {
+    const preferences = loadPreferences();
+    const supported = canStreamToDisk();
+    setFilenameTemplate(preferences.filenameTemplate);
+    // Browsers that can't stream to disk hold downloads in memory whatever was saved
+    setStreamToDisk(supported && preferences.streamToDisk);
+    setAutoRetry(preferences.autoRetry);
+    setAdvancedFormats(preferences.advancedFormats);
+    setCustomPresets(preferences.qualityPresets);
+    setDefaultPresetId(preferences.defaultPresetId);
+    setStreamingSupported(supported);
+  }, []);
+
+  // A video-only format is merged with FFmpeg, so start loading it while the user finishes
+  // choosing
+  useEffect(() => {
+    if (selectedFormat?.hasVideo && !selectedFormat.hasAudio) {
+      preloadFFmpeg();
+    }
+  }, [selectedFormat]);
+
+  const handleFilenameTemplateChange = useCallback((template: string) => {
+    setFilenameTemplate(template);
+    savePreferences({ filenameTemplate: template });
+  }, []);
+
+  const handleStreamToDiskChange = useCallback((enabled: boolean) => {
+    setStreamToDisk(enabled);
+    savePreferences({ streamToDisk: enabled });
+  }, []);
+
+  const handleAutoRetryChange = useCallback((enabled: boolean) => {
+    setAutoRetry(enabled);
+    savePreferences({ autoRetry: enabled });
+  }, []);
+
+  const toggleAdvancedFormats = useCallback(() => {
+    setAdvancedFormats((current) => {
+      savePreferences({ advancedFormats: !current });
+      return !current;
+    });
+  }, []);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const defaultPreset = presets.find((preset) => preset.id === defaultPresetId) || BUILT_IN_PRESETS[0];
+
+  // Select what `preset` picks from the video's formats
+  const applyPreset = useCallback((info: VideoInfo, preset: QualityPreset) => {
+    setSelectedFormat(resolvePreset(info, preset));
+    setSelectedAudio(null);
+    if (preset.audio) {
+      setAudioOptions(preset.audio);
+    }
+    setActivePresetId(preset.id);
+  }, []);
 
-  // Fetch video information
+  // A format picked by hand no longer follows a preset
+  const selectFormat = useCallback((format: VideoFormat) => {
+    setSelectedFormat(format);
+    setActivePresetId(null);
+  }, []);
+
+  const selectAudio = useCallback((format: VideoFormat | null) => {
+    setSelectedAudio(format);
+    setActivePresetId(null);
+  }, []);
+
+  const handleDefaultPresetChange = useCallback((id: string) => {
+    setDefaultPresetId(id);
+    savePreferences({ defaultPresetId: id });
+  }, []);
+
+  const savePreset = useCallback((name: string) => {
+    if (!selectedFormat) {
+      return;
+    }
+    const preset = presetFromFormat(name, selectedFormat, audioOptions);
+    const saved = [...customPresets, preset];
+    setCustomPresets(saved);
+    savePreferences({ qualityPresets: saved });
+    setActivePresetId(preset.id);
+  }, [selectedFormat, audioOptions, customPresets]);
+
+  const deletePreset = useCallback((id: string) => {
+    const saved = customPresets.filter((preset) => preset.id !== id);
+    setCustomPresets(saved);
+    savePreferences({ qualityPresets: saved });
+    if (defaultPresetId === id) {
+      handleDefaultPresetChange(DEFAULT_PRESET_ID);
+    }
+    setActivePresetId(null);
+  }, [customPresets, defaultPresetId, handleDefaultPresetChange]);
+
+  // Fetch video information; the default preset picks the format, so downloading takes
+  // one more click
   const fetchVideoInfo = useCallback(async () => {
     if (!url.trim()) {
       setError('Please enter a YouTube URL');
@@ -36,303 +430,909 @@ export default function Downloader({ className = '' }: DownloaderProps) {
     setIsLoading(true);
     setError(null);
     setVideoInfo(null);
+    setPlaylist(null);
     setSelectedFormat(null);
-    setProgress({ stage: 'fetching', progress: 0, message: 'Fetching video information...' });
+    setSelectedAudio(null);
+    setActivePresetId(null);
+    setUrlStartTime(null);
+    setEmbeddedCaptions([]);
+    setChapterMode(undefined);
 
     try {
-      const response = await axios.get<{ success: boolean; data?: VideoInfo; error?: string; message?: string }>(
-        `/api/info?url=${encodeURIComponent(url)}`
-      );
+      if (isCollectionUrl(url)) {
+        const response = await axios.get<PlaylistInfoResponse>(`/api/playlist?url=${encodeURIComponent(url)}`);
 
-      if (!response.data.success || !response.data.data) {
-        throw new Error(response.data.message || 'Failed to fetch video information');
-      }
+        if (!response.data.success || !response.data.data) {
+          throw new ApiError(response.data.error || 'FETCH_ERROR', response.data.message || 'Failed to fetch playlist information');
+        }
+
+        const playlistInfo = response.data.data;
+        setPlaylist(playlistInfo);
+        setSelectedEntries(new Set(playlistInfo.entries.map((entry) => entry.videoId)));
 
-      setVideoInfo(response.data.data);
-      setProgress({ stage: 'idle', progress: 0 });
+        // The first entry's formats drive the shared quality choice
+        const info = await requestVideoInfo(playlistInfo.entries[0].videoId);
+        setVideoInfo(info);
+        applyPreset(info, defaultPreset);
+      } else {
+        const info = await requestVideoInfo(url);
+        setVideoInfo(info);
+        applyPreset(info, defaultPreset);
+        setUrlStartTime(extractStartTime(url));
+      }
     } catch (err: any) {
-      const errorMessage =
-        err.response?.data?.message ||
-        err.message ||
-        'Failed to fetch video information. Please check the URL and try again.';
-      setError(errorMessage);
-      setProgress({ stage: 'idle', progress: 0 });
+      const apiError = toApiError(err, 'FETCH_ERROR');
+      const tip = tipFor(apiError.code);
+      setError(tip ? `${apiError.message} ${tip}` : apiError.message);
     } finally {
       setIsLoading(false);
     }
-  }, [url]);
+  }, [url, applyPreset, defaultPreset]);
 
-  // Download blob with progress tracking using XMLHttpRequest (better CORS handling)
-  const downloadBlob = async (
-    url: string,
-    filename: string,
-    onProgress?: (progress: number) => void,
+  // Download a stream into `sink` with progress tracking. Large streams are fetched as
+  // parallel ranges; interrupted single requests resume from the last byte received.
+  const downloadTo = async (
+    format: VideoFormat,
+    sink: ByteSink,
+    onStreamProgress?: (update: StreamProgress) => void,
     signal?: AbortSignal,
     videoId?: string,
-    itag?: number
-  ): Promise<Blob> => {
-    // Try XMLHttpRequest first (better CORS handling than fetch)
-    // The URL from /api/info is bound to the client's IP, so it should work
-    return new Promise<Blob>((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      xhr.open('GET', url, true);
-      xhr.responseType = 'blob';
-      
-      // Set headers that YouTube expects
-      xhr.setRequestHeader('Referer', 'https://www.youtube.com/');
-      xhr.setRequestHeader('Origin', 'https://www.youtube.com');
-      
-      // Handle progress
-      if (onProgress) {
-        xhr.onprogress = (event) => {
-          if (event.lengthComputable && event.total > 0) {
-            onProgress((event.loaded / event.total) * 100);
-          }
-        };
+    viaProxy = false
+  ): Promise<void> => {
+    const size = parseInt(format.contentLength || '0', 10);
+    const segmented = size > SEGMENTED_DOWNLOAD_THRESHOLD;
+
+    const rate = new TransferRate(size || null);
+    const onProgress = (progress: number) =>
+      onStreamProgress?.(size ? { progress, ...rate.update((progress / 100) * size) } : { progress });
+
+    const fetchViaProxy = async () => {
+      if (!videoId) {
+        throw new Error('Network error: Video ID is required for server proxy fallback.');
       }
-      
-      // Handle completion
-      xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          resolve(xhr.response);
-        } else if (xhr.status === 0) {
-          // CORS error or network issue - try server proxy
-          if (!videoId || !itag) {
-            reject(new Error('CORS error: Video ID and itag are required for server proxy fallback.'));
-            return;
-          }
-          
-          // Fallback to server proxy
-          const proxyUrl = `/api/download?videoId=${encodeURIComponent(videoId)}&itag=${itag}`;
-          fetch(proxyUrl, { signal })
-            .then((response) => {
-              if (!response.ok) {
-                throw new Error(`Server proxy failed: ${response.statusText} (${response.status})`);
-              }
-              return response.blob();
-            })
-            .then(resolve)
-            .catch(reject);
-        } else {
-          reject(new Error(`Failed to download: ${xhr.statusText} (${xhr.status})`));
-        }
-      };
-      
-      // Handle errors
-      xhr.onerror = () => {
-        if (!videoId || !itag) {
-          reject(new Error('Network error: Video ID and itag are required for server proxy fallback.'));
-          return;
-        }
-        
-        // Fallback to server proxy
-        const proxyUrl = `/api/download?videoId=${encodeURIComponent(videoId)}&itag=${itag}`;
-        fetch(proxyUrl, { signal })
-          .then((response) => {
-            if (!response.ok) {
-              throw new Error(`Server proxy failed: ${response.statusText} (${response.status})`);
-            }
-            return response.blob();
-          })
-          .then(resolve)
-          .catch(reject);
-      };
-      
-      // Handle abort
-      if (signal) {
-        signal.addEventListener('abort', () => {
-          xhr.abort();
-          reject(new DOMException('Aborted', 'AbortError'));
+      const proxyUrl = `/api/download?videoId=${encodeURIComponent(videoId)}&itag=${format.itag}`;
+      if (segmented) {
+        // Each range is its own short request, so the server's progress adds nothing here
+        await fetchSegmentedTo(
+          (range) => ({ url: `${proxyUrl}&start=${range.start}&end=${range.end}` }),
+          sink,
+          { size, signal, onProgress }
+        );
+        return;
+      }
+
+      // Show the server's steps (fetching info, falling back) until the bytes arrive
+      const progressId = createProgressId();
+      let receiving = false;
+      const server = watchServerProgress(progressId, ({ message }) => {
+        if (!receiving) onStreamProgress?.({ progress: 0, message });
+      }, { signal });
+      try {
+        await fetchResumableTo(`${proxyUrl}&progressId=${progressId}`, sink, {
+          signal,
+          onProgress: (progress) => {
+            receiving = true;
+            onProgress(progress);
+          },
         });
+      } finally {
+        server.close();
       }
-      
-      // Send request
-      xhr.send();
-    });
-  };
+    };
 
-  // Initialize FFmpeg
-  const initFFmpeg = async (): Promise<FFmpeg> => {
-    if (ffmpegRef.current) {
-      return ffmpegRef.current;
+    if (viaProxy) {
+      return fetchViaProxy();
     }
 
-    setProgress({ stage: 'merging', progress: 0, message: 'Loading FFmpeg...' });
+    // Bytes already in the sink can't be taken back, so only a clean failure may switch routes
+    let written = false;
+    const trackedSink: ByteSink = {
+      write: (data) => {
+        written = true;
+        return sink.write(data);
+      },
+    };
+
+    // The URL from /api/info is bound to the client's IP, so try it directly first
+    try {
+      if (segmented) {
+        await fetchSegmentedTo(
+          (range) => ({ url: format.url, headers: { Range: `bytes=${range.start}-${range.end}` } }),
+          trackedSink,
+          { size, signal, onProgress }
+        );
+      } else {
+        await fetchResumableTo(format.url, trackedSink, { signal, onProgress });
+      }
+    } catch (error) {
+      if (signal?.aborted || error instanceof DownloadHttpError || written) {
+        throw error;
+      }
 
-    const ffmpeg = new FFmpeg();
-    ffmpegRef.current = ffmpeg;
+      // CORS error or network issue - try server proxy
+      await fetchViaProxy();
+    }
+  };
 
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-    await ffmpeg.load({
-      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-      wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-    });
+  // Download a stream for FFmpeg to read. With `scratchFiles`, the stream goes to a scratch
+  // file on disk (added to the list so the caller can remove it); otherwise it is held
+  // in memory.
+  const downloadBlob = async (
+    format: VideoFormat,
+    onProgress?: (update: StreamProgress) => void,
+    signal?: AbortSignal,
+    videoId?: string,
+    scratchFiles?: ScratchFile[],
+    viaProxy = false
+  ): Promise<Blob> => {
+    const scratch = scratchFiles ? await createScratchFile(`${createJobId()}.${format.container}`) : null;
+    if (scratch) {
+      scratchFiles!.push(scratch);
+      await writeToSink(scratch.sink, () => downloadTo(format, scratch.sink, onProgress, signal, videoId, viaProxy));
+      return scratch.getFile();
+    }
 
-    return ffmpeg;
+    const sink = new MemorySink();
+    await downloadTo(format, sink, onProgress, signal, videoId, viaProxy);
+    return sink.toBlob(format.mimeType.split(';')[0]);
   };
 
-  // Merge video and audio using FFmpeg
-  const mergeWithFFmpeg = async (videoBlob: Blob, audioBlob: Blob, outputFilename: string): Promise<void> => {
-    const ffmpeg = await initFFmpeg();
+  // Show FFmpeg as loading or busy before waiting for exclusive access
+  const reportWaitingForFFmpeg = (report: ProgressReporter) => {
+    report({
+      stage: 'merging',
+      progress: 0,
+      message: isFFmpegLoaded() ? 'Waiting for FFmpeg...' : 'Loading FFmpeg...',
+    });
+  };
 
-    setProgress({ stage: 'merging', progress: 10, message: 'Preparing files...' });
+  // Merge video and audio using FFmpeg, into the container they were paired for
+  const mergeWithFFmpeg = async (
+    video: VideoFormat,
+    videoBlob: Blob,
+    { audio, container, copyAudio }: FormatPairing,
+    audioBlob: Blob,
+    outputFilename: string,
+    report: ProgressReporter,
+    { trim, subtitles = [], chapterMetadata, segments, tags, cover, destination, duration, signal }: ProcessingExtras = {}
+  ): Promise<void> => {
+    const outputName = `output.${container}`;
 
-    // Write files to FFmpeg virtual filesystem
-    await ffmpeg.writeFile('video.mp4', await fetchFile(videoBlob));
-    setProgress({ stage: 'merging', progress: 30, message: 'Processing video...' });
+    reportWaitingForFFmpeg(report);
 
-    await ffmpeg.writeFile('audio.mp4', await fetchFile(audioBlob));
-    setProgress({ stage: 'merging', progress: 50, message: 'Merging streams...' });
+    // The FFmpeg instance is shared, so the virtual filesystem is only ours inside runExclusive
+    const outputs = await runExclusive(async (ffmpeg) => {
+      report({ stage: 'merging', progress: 10, message: 'Preparing files...' });
 
-    // Merge video and audio
-    await ffmpeg.exec([
-      '-i', 'video.mp4',
-      '-i', 'audio.mp4',
-      '-c:v', 'copy',
-      '-c:a', 'aac',
-      '-strict', 'experimental',
-      '-shortest',
-      'output.mp4',
-    ]);
+      let subtitleInputs: SubtitleInput[] = [];
+      try {
+        // Give FFmpeg the downloaded streams without copying them into its memory
+        const [videoInput, audioInput] = await mountInputs(ffmpeg, [
+          { name: `video.${video.container}`, data: videoBlob },
+          { name: `audio.${audio.container}`, data: audioBlob },
+        ]);
+        subtitleInputs = await writeSubtitleFiles(ffmpeg, subtitles);
+        await writeExtraInputs(ffmpeg, chapterMetadata, cover);
 
-    setProgress({ stage: 'merging', progress: 90, message: 'Finalizing...' });
+        // A clip can be stream-copied only if it starts on a keyframe
+        report({ stage: 'merging', progress: 20, message: 'Processing video...' });
+        const reencodeVideo = trim ? !(await isKeyframeAt(ffmpeg, videoInput, trim.start)) : false;
+        const message = reencodeVideo ? 'Re-encoding clip (this may take a while)...' : 'Merging streams...';
+        report({ stage: 'merging', progress: 30, message });
 
-    // Read output file
-    const data = await ffmpeg.readFile('output.mp4');
-    // Convert FileData to Uint8Array for Blob constructor
-    const uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
-    const blob = new Blob([uint8Array], { type: 'video/mp4' });
+        await execWithProgress(ffmpeg, buildMergeArgs({
+          videoInput,
+          audioInput,
+          output: outputName,
+          container,
+          copyAudio,
+          trim,
+          reencodeVideo,
+          subtitles: subtitleInputs,
+          chaptersInput: chapterMetadata ? 'chapters.txt' : undefined,
+          tags,
+          coverInput: cover ? 'cover.jpg' : undefined,
+        }), ffmpegProgress(report, message, duration));
 
-    // Clean up
-    await ffmpeg.deleteFile('video.mp4');
-    await ffmpeg.deleteFile('audio.mp4');
-    await ffmpeg.deleteFile('output.mp4');
+        report({ stage: 'merging', progress: 90, message: 'Finalizing...' });
+        return await readOutputs(ffmpeg, outputName, {
+          type: CONTAINER_MIME_TYPES[container],
+          filename: outputFilename,
+          container,
+          hasVideo: true,
+          segments,
+          onSegment: segmentReporter(report, segments),
+        });
+      } finally {
+        await cleanUpFFmpeg(ffmpeg, [outputName, ...subtitleInputs.map((subtitle) => subtitle.input)]);
+      }
+    }, signal);
 
     // Trigger download
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = outputFilename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    setProgress({ stage: 'complete', progress: 100, message: 'Download complete!' });
+    await saveOutputs(outputs, destination);
+
+    report({ stage: 'complete', progress: 100, message: 'Download complete!' });
   };
 
-  // Download video
-  const downloadVideo = useCallback(async () => {
-    if (!selectedFormat || !videoInfo) {
-      setError('Please select a quality/format');
-      return;
-    }
+  // Transcode an audio stream into the requested target format using FFmpeg
+  const transcodeAudio = async (
+    audioBlob: Blob,
+    inputName: string,
+    options: AudioOptions,
+    outputFilename: string,
+    report: ProgressReporter,
+    { trim, chapterMetadata, segments, tags, cover, destination, duration, signal }: ProcessingExtras = {}
+  ): Promise<void> => {
+    const target = AUDIO_TARGETS[options.target];
+    const outputName = `output.${target.extension}`;
 
-    setError(null);
-    setProgress({ stage: 'downloading', progress: 0, message: 'Starting download...' });
+    reportWaitingForFFmpeg(report);
+
+    const outputs = await runExclusive(async (ffmpeg) => {
+      try {
+        const [input] = await mountInputs(ffmpeg, [{ name: inputName, data: audioBlob }]);
+        await writeExtraInputs(ffmpeg, chapterMetadata, cover);
+        const message = `Converting to ${target.label}...`;
+        report({ stage: 'merging', progress: 30, message });
+
+        await execWithProgress(ffmpeg, buildAudioArgs({
+          input,
+          output: outputName,
+          target: options.target,
+          bitrate: options.bitrate,
+          trim,
+          chaptersInput: chapterMetadata ? 'chapters.txt' : undefined,
+          tags,
+          coverInput: cover ? 'cover.jpg' : undefined,
+        }), ffmpegProgress(report, message, duration));
+
+        report({ stage: 'merging', progress: 90, message: 'Finalizing...' });
+        return await readOutputs(ffmpeg, outputName, {
+          type: target.mimeType,
+          filename: outputFilename,
+          container: target.extension,
+          hasVideo: false,
+          segments,
+          onSegment: segmentReporter(report, segments),
+        });
+      } finally {
+        await cleanUpFFmpeg(ffmpeg, [outputName]);
+      }
+    }, signal);
+
+    await saveOutputs(outputs, destination);
+
+    report({ stage: 'complete', progress: 100, message: 'Download complete!' });
+  };
+
+  // Rewrite a combined video+audio file using FFmpeg to cut a clip, embed subtitles or
+  // chapters, or split it by chapter
+  const remuxWithFFmpeg = async (
+    blob: Blob,
+    container: string,
+    outputFilename: string,
+    report: ProgressReporter,
+    { trim, subtitles = [], chapterMetadata, segments, tags, cover, destination, duration, signal }: ProcessingExtras
+  ): Promise<void> => {
+    const inputName = `input.${container}`;
+    const outputName = `output.${container}`;
+    const type = blob.type || `video/${container}`;
 
-    abortControllerRef.current = new AbortController();
+    reportWaitingForFFmpeg(report);
 
+    const outputs = await runExclusive(async (ffmpeg) => {
+      let subtitleInputs: SubtitleInput[] = [];
+      try {
+        const [input] = await mountInputs(ffmpeg, [{ name: inputName, data: blob }]);
+        subtitleInputs = await writeSubtitleFiles(ffmpeg, subtitles);
+        await writeExtraInputs(ffmpeg, chapterMetadata, cover);
+
+        const reencodeVideo = trim ? !(await isKeyframeAt(ffmpeg, input, trim.start)) : false;
+        const message = reencodeVideo ? 'Re-encoding clip (this may take a while)...' : 'Processing video...';
+        report({ stage: 'merging', progress: 30, message });
+
+        await execWithProgress(ffmpeg, buildRemuxArgs({
+          input,
+          output: outputName,
+          trim,
+          reencodeVideo,
+          container,
+          subtitles: subtitleInputs,
+          chaptersInput: chapterMetadata ? 'chapters.txt' : undefined,
+          tags,
+          coverInput: cover ? 'cover.jpg' : undefined,
+        }), ffmpegProgress(report, message, duration));
+
+        report({ stage: 'merging', progress: 90, message: 'Finalizing...' });
+        return await readOutputs(ffmpeg, outputName, {
+          type,
+          filename: outputFilename,
+          container,
+          hasVideo: true,
+          segments,
+          onSegment: segmentReporter(report, segments),
+        });
+      } finally {
+        await cleanUpFFmpeg(ffmpeg, [outputName, ...subtitleInputs.map((subtitle) => subtitle.input)]);
+      }
+    }, signal);
+
+    await saveOutputs(outputs, destination);
+
+    report({ stage: 'complete', progress: 100, message: 'Download complete!' });
+  };
+
+  // Download a single video in the given format, reporting progress as it goes
+  const performDownload = async (
+    info: VideoInfo,
+    format: VideoFormat,
+    signal: AbortSignal,
+    report: ProgressReporter,
+    options: DownloadOptions,
+    destination?: DownloadDestination
+  ): Promise<void> => {
+    // Streams FFmpeg reads go to scratch files on disk; removed once the job ends
+    const scratchFiles: ScratchFile[] | undefined = options.streamToDisk ? [] : undefined;
     try {
-      const format = selectedFormat;
-      const filename = `${videoInfo.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${format.container}`;
-
-      // If format has both video and audio, use native browser download (bypasses CORS)
-      if (format.hasVideo && format.hasAudio) {
-        setProgress({ stage: 'downloading', progress: 0, message: 'Starting download...' });
-        
-        // Use native browser download which bypasses CORS restrictions
-        // The URL is bound to the client's IP, so it should work when triggered from the browser
-        const a = document.createElement('a');
-        a.href = format.url;
-        a.download = filename;
-        a.target = '_blank'; // Open in new tab as fallback if download attribute doesn't work
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        
-        setProgress({ stage: 'complete', progress: 100, message: 'Download started! Check your downloads folder.' });
-      } else if (format.hasVideo && !format.hasAudio) {
-        // Need to merge with audio
-        setProgress({ stage: 'downloading', progress: 0, message: 'Downloading video stream...' });
-
-        // Find best audio format
-        const audioFormats = videoInfo.formats.filter((f) => f.hasAudio && !f.hasVideo);
-        if (audioFormats.length === 0) {
-          throw new Error('No audio stream available for merging');
+      await performDownloadSteps(info, format, signal, report, options, destination, scratchFiles);
+    } finally {
+      for (const scratch of scratchFiles || []) {
+        await scratch.remove().catch(() => undefined);
+      }
+    }
+  };
+
+  const performDownloadSteps = async (
+    info: VideoInfo,
+    format: VideoFormat,
+    signal: AbortSignal,
+    report: ProgressReporter,
+    options: DownloadOptions,
+    destination: DownloadDestination | undefined,
+    scratchFiles: ScratchFile[] | undefined
+  ): Promise<void> => {
+    const filename = outputFilename(info, format, options);
+    const baseName = filename.slice(0, filename.lastIndexOf('.'));
+
+    const captions = options.captions || [];
+    const chapters = options.chapterMode ? chapterSegments(info.chapters, info.duration, options.trim) : [];
+
+    // Chapter handling depends on the extension of the file being produced
+    const extrasFor = async (extension: string): Promise<ProcessingExtras> => ({
+      trim: options.trim,
+      chapterMetadata:
+        options.chapterMode === 'embed' && chapters.length > 0 ? buildChapterMetadata(chapters) : undefined,
+      segments:
+        options.chapterMode === 'split'
+          ? chapters.map((chapter, i) => ({
+              ...chapter,
+              filename: `${baseName} - ${String(i + 1).padStart(2, '0')} - ${sanitizeFilename(chapter.title)}.${extension}`,
+            }))
+          : undefined,
+      tags: options.embedMetadata ? buildMediaTags(info) : undefined,
+      cover: options.embedMetadata ? await requestCover(info.thumbnail) : null,
+      destination,
+      duration: options.trim ? options.trim.end - options.trim.start : info.duration,
+      signal,
+    });
+
+    // A combined format has to pass through FFmpeg for clips, subtitles, chapters and tags.
+    // Without a clip the streams are copied, so tagging alone is only a remux.
+    const needsProcessing = Boolean(options.trim || captions.length > 0 || chapters.length > 0 || options.embedMetadata);
+    if (format.hasVideo && format.hasAudio && needsProcessing) {
+      report({ stage: 'downloading', progress: 0, message: 'Downloading video...' });
+
+      const blob = await downloadBlob(
+        format,
+        streamReporter(report, 'downloading', 'Downloading video...'),
+        signal,
+        info.videoId,
+        scratchFiles,
+        options.viaProxy
+      );
+
+      const subtitles = await requestSubtitles(info.videoId, captions);
+      await remuxWithFFmpeg(blob, format.container, filename, report, {
+        ...(await extrasFor(format.container)),
+        subtitles,
+      });
+    } else if (format.hasVideo && format.hasAudio) {
+      report({ stage: 'downloading', progress: 0, message: 'Starting download...' });
+
+      // Write the stream to disk ourselves, so it can resume and report progress
+      const sink = options.streamToDisk
+        ? await openFileSink(destination, filename, format.mimeType.split(';')[0], parseInt(format.contentLength || '0', 10) || undefined)
+        : null;
+      if (sink) {
+        await writeToSink(sink, () =>
+          downloadTo(format, sink, streamReporter(report, 'downloading', 'Downloading video...'), signal, info.videoId, options.viaProxy)
+        );
+        report({ stage: 'complete', progress: 100, message: 'Download complete!' });
+        return;
+      }
+
+      // Otherwise use a native browser download (bypasses CORS)
+      // The URL is bound to the client's IP, so it should work when triggered from the browser
+      const a = document.createElement('a');
+      a.href = options.viaProxy
+        ? `/api/download?videoId=${encodeURIComponent(info.videoId)}&itag=${format.itag}`
+        : format.url;
+      a.download = filename;
+      a.target = '_blank'; // Open in new tab as fallback if download attribute doesn't work
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      
+      report({ stage: 'complete', progress: 100, message: 'Download started! Check your downloads folder.' });
+    } else if (format.hasVideo && !format.hasAudio) {
+      // Need to merge with audio
+      report({ stage: 'downloading', progress: 0, message: 'Downloading video stream...' });
+
+      // Audio the video can be stream-copied with, and the container that holds both
+      const pairing = pairFormats(audioCandidates(info.formats, options.audioItag), format);
+      if (!pairing) {
+        throw new ApiError('NO_AUDIO', 'No audio stream available for merging');
+      }
+
+      // Large files are muxed on the server and streamed straight to the downloads folder.
+      // The server returns a single file, so splitting by chapter always happens here.
+      const totalSize = parseInt(format.contentLength || '0', 10) + parseInt(pairing.audio.contentLength || '0', 10);
+      if (totalSize > SERVER_MERGE_THRESHOLD && options.chapterMode !== 'split') {
+        const clipParams = options.trim ? `&start=${options.trim.start}&end=${options.trim.end}` : '';
+        const captionParams = captions.length > 0
+          ? `&captions=${encodeURIComponent(captions.map((track) => track.id).join(','))}`
+          : '';
+        const chapterParams = options.chapterMode === 'embed' ? '&chapters=1' : '';
+        const metadataParams = options.embedMetadata ? '&metadata=1' : '';
+        const mergeUrl = `/api/merge?videoId=${encodeURIComponent(info.videoId)}&itag=${format.itag}&audioItag=${pairing.audio.itag}&container=${pairing.container}&filename=${encodeURIComponent(filename)}${clipParams}${captionParams}${chapterParams}${metadataParams}`;
+
+        // The merged size isn't known up front, so progress comes from the server
+        report({ stage: 'merging', progress: 0, message: 'Merging on the server...' });
+        const progressId = createProgressId();
+        const server = watchServerProgress(progressId, report, { signal });
+
+        // A picked file is written as the server muxes
+        if (destination) {
+          const sink = (await openFileSink(destination, filename, CONTAINER_MIME_TYPES[pairing.container]))!;
+          // Without server events, count the bytes against the inputs' size instead
+          let serverSilent = false;
+          server.finished.then((ended) => (serverSilent = !ended), () => undefined);
+          const rate = new TransferRate(totalSize || null);
+          let written = 0;
+          const counting: ByteSink = {
+            write: async (data) => {
+              await sink.write(data);
+              written += data instanceof Blob ? data.size : data.byteLength;
+              if (serverSilent) {
+                report({
+                  stage: 'merging',
+                  progress: totalSize ? Math.min(99, (written / totalSize) * 100) : 0,
+                  message: 'Merging on the server...',
+                  ...rate.update(written),
+                });
+              }
+            },
+          };
+          try {
+            // The merge can't be resumed part-way, so any interruption fails the job
+            await writeToSink(sink, () =>
+              fetchResumableTo(`${mergeUrl}&progressId=${progressId}`, counting, { signal, maxResumes: 0 }).then(() => undefined)
+            );
+          } finally {
+            server.close();
+          }
+          report({ stage: 'complete', progress: 100, message: 'Download complete!' });
+          return;
         }
 
-        const bestAudio = audioFormats.sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0))[0];
-
-        // Download video
-        const videoBlob = await downloadBlob(format.url, 'video', (progress) => {
-          setProgress({
-            stage: 'downloading',
-            progress: progress * 0.5,
-            message: 'Downloading video stream...',
-          });
-        }, abortControllerRef.current?.signal, videoInfo.videoId, format.itag);
-
-        // Download audio
-        setProgress({ stage: 'downloading', progress: 50, message: 'Downloading audio stream...' });
-        const audioBlob = await downloadBlob(bestAudio.url, 'audio', (progress) => {
-          setProgress({
-            stage: 'downloading',
-            progress: 50 + progress * 0.5,
-            message: 'Downloading audio stream...',
-          });
-        }, abortControllerRef.current?.signal, videoInfo.videoId, bestAudio.itag);
-
-        // Merge with FFmpeg
-        await mergeWithFFmpeg(videoBlob, audioBlob, filename);
-      } else if (format.hasAudio && !format.hasVideo) {
-        // Audio-only download - use native browser download
-        setProgress({ stage: 'downloading', progress: 0, message: 'Starting download...' });
-        
-        // Use native browser download which bypasses CORS restrictions
         const a = document.createElement('a');
-        a.href = format.url;
+        a.href = `${mergeUrl}&progressId=${progressId}`;
         a.download = filename;
-        a.target = '_blank'; // Open in new tab as fallback if download attribute doesn't work
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
-        
-        setProgress({ stage: 'complete', progress: 100, message: 'Download started! Check your downloads folder.' });
+
+        // The browser saves the file itself; the server says when it has sent all of it
+        const finished = await server.finished;
+        report({
+          stage: 'complete',
+          progress: 100,
+          message: finished
+            ? 'Merged on the server. The file is in your downloads folder.'
+            : 'Merging on the server. The file will appear in your downloads folder.',
+        });
+        return;
       }
-    } catch (err: any) {
-      if (err.name === 'AbortError') {
-        setError('Download cancelled');
-      } else {
-        const errorMsg = err.message || 'Failed to download video. Please try again.';
-        // Provide helpful guidance based on error type
-        if (errorMsg.includes('403') || errorMsg.includes('ACCESS_DENIED') || errorMsg.includes('forbidden')) {
-          if (selectedFormat && !selectedFormat.hasAudio) {
-            setError(`${errorMsg}\n\n💡 Tip: YouTube is blocking server-side downloads for formats requiring merging. Please select a combined format (video+audio) which uses native browser download and works reliably.`);
-          } else {
-            setError(`${errorMsg}\n\n💡 Tip: YouTube may be blocking this request. Try selecting a different format or wait a few minutes.`);
+
+      // Download video
+      const videoBlob = await downloadBlob(
+        format,
+        streamReporter(report, 'downloading', 'Downloading video stream...', 0, 50),
+        signal,
+        info.videoId,
+        scratchFiles,
+        options.viaProxy
+      );
+
+      // Download audio
+      report({ stage: 'downloading', progress: 50, message: 'Downloading audio stream...' });
+      const audioBlob = await downloadBlob(
+        pairing.audio,
+        streamReporter(report, 'downloading', 'Downloading audio stream...', 50, 50),
+        signal,
+        info.videoId,
+        scratchFiles,
+        options.viaProxy
+      );
+
+      // Merge with FFmpeg
+      const subtitles = await requestSubtitles(info.videoId, captions);
+      await mergeWithFFmpeg(format, videoBlob, pairing, audioBlob, filename, report, {
+        ...(await extrasFor(pairing.container)),
+        subtitles,
+      });
+    } else if (format.hasAudio && !format.hasVideo) {
+      // Audio-only download - fetch the stream and transcode it to the chosen target
+      report({ stage: 'downloading', progress: 0, message: 'Downloading audio stream...' });
+
+      const audioBlob = await downloadBlob(
+        format,
+        streamReporter(report, 'downloading', 'Downloading audio stream...'),
+        signal,
+        info.videoId,
+        scratchFiles,
+        options.viaProxy
+      );
+
+      const target = AUDIO_TARGETS[options.audio.target];
+      await transcodeAudio(
+        audioBlob,
+        `input.${format.container}`,
+        options.audio,
+        filename,
+        report,
+        await extrasFor(target.extension)
+      );
+    }
+  };
+
+  const handleTrimChange = useCallback((range: TrimRange | null, valid: boolean) => {
+    setTrim(range);
+    setTrimValid(valid);
+  }, []);
+
+  const updateJob = useCallback((id: string, patch: Partial<DownloadJob>) => {
+    setJobs((current) => current.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+  }, []);
+
+  // Run one job to completion; playlist entries fetch fresh info and match the reference format first.
+  // Retryable failures go through the recovery steps unless the job turned them off.
+  const runJob = async (job: DownloadJob) => {
+    const controller = new AbortController();
+    controllersRef.current.set(job.id, controller);
+    updateJob(job.id, { status: 'active', error: undefined, attempts: [] });
+
+    const steps: DownloadAttempt['step'][] = ['initial', ...(job.options.autoRetry ? RECOVERY_STEPS : [])];
+    const attempts: DownloadAttempt[] = [];
+    let info = job.info;
+    let format = job.format;
+
+    try {
+      for (let i = 0; ; i++) {
+        const step = steps[i];
+        if (step === 'fallback') {
+          const fallback = info && findFallbackFormat(info.formats, format, attempts.map((attempt) => attempt.format.itag));
+          if (!fallback) continue;
+          format = fallback;
+        }
+
+        const label = step === 'initial' ? null : `Attempt ${attempts.length + 1}: ${RECOVERY_STEP_LABELS[step]}`;
+        const report: ProgressReporter = (progress) =>
+          updateJob(job.id, { progress: { ...progress, message: [label, progress.message].filter(Boolean).join(' · ') } });
+
+        if (step !== 'initial') {
+          report({ stage: 'fetching', progress: 0, message: 'Waiting...' });
+          await delay(backoffDelay(attempts.length - 1), controller.signal);
+          // Fresh info comes with freshly signed format URLs
+          info = null;
+        }
+
+        attempts.push({ step, format });
+        updateJob(job.id, { attempts: [...attempts] });
+
+        try {
+          if (!info) {
+            report({ stage: 'fetching', progress: 0, message: 'Fetching video information...' });
+            info = await requestVideoInfo(job.videoId);
+            const matched = info.formats.find((f) => f.itag === format.itag) || matchFormat(info.formats, format);
+            if (!matched) {
+              throw new ApiError('FORMAT_NOT_FOUND', 'No matching format available');
+            }
+            format = matched;
+            attempts[attempts.length - 1] = { step, format };
+            updateJob(job.id, { info, format, attempts: [...attempts] });
+          }
+
+          const options = { ...job.options, viaProxy: step === 'proxy' };
+          await performDownload(info, format, controller.signal, report, options, job.destination);
+          updateJob(job.id, { status: 'complete' });
+          onDownloaded?.(createHistoryEntry(info, format, job.options, outputFilename(info, format, job.options)));
+          return;
+        } catch (err: any) {
+          if (err.name === 'AbortError' || controller.signal.aborted) {
+            throw err;
+          }
+          const error = toApiError(err);
+          console.error(`[${error.code}] Download attempt ${attempts.length} failed:`, err);
+          attempts[attempts.length - 1] = { step, format, error: { code: error.code, message: error.message } };
+          updateJob(job.id, { attempts: [...attempts] });
+          if (!error.retryable || i >= steps.length - 1) {
+            throw error;
           }
-        } else if (errorMsg.includes('SIGNATURE_ERROR') || errorMsg.includes('n transform') || errorMsg.includes('decipher')) {
-          setError(`${errorMsg}\n\n💡 Tip: YouTube has updated their security. The ytdl-core library may need an update. Try selecting a combined format (video+audio) which works more reliably.`);
-        } else if (errorMsg.includes('NO_URL') || errorMsg.includes('FORMAT_NOT_FOUND')) {
-          setError(`${errorMsg}\n\n💡 Tip: This format is not available. Please select a different format. Combined formats (video+audio) are usually more reliable.`);
-        } else {
-          setError(errorMsg);
         }
       }
-      setProgress({ stage: 'idle', progress: 0 });
+    } catch (err: any) {
+      if (err.name === 'AbortError' || controller.signal.aborted) {
+        updateJob(job.id, { status: 'cancelled', progress: { stage: 'idle', progress: 0 } });
+      } else {
+        const { code, message } = toApiError(err);
+        updateJob(job.id, {
+          status: 'failed',
+          progress: { stage: 'idle', progress: 0 },
+          error: { code, message },
+        });
+      }
+    } finally {
+      controllersRef.current.delete(job.id);
+      startedRef.current.delete(job.id);
     }
-  }, [selectedFormat, videoInfo]);
+  };
+
+  // Start queued jobs whenever a transfer slot is free
+  useEffect(() => {
+    const available = concurrency - startedRef.current.size;
+    if (available <= 0) return;
+
+    jobs
+      .filter((job) => job.status === 'queued' && !startedRef.current.has(job.id))
+      .slice(0, available)
+      .forEach((job) => {
+        startedRef.current.add(job.id);
+        runJob(job);
+      });
+  }, [jobs, concurrency]);
+
+  const enqueue = useCallback((newJobs: DownloadJob[]) => {
+    setJobs((current) => [...current, ...newJobs]);
+  }, []);
+
+  // For playlists, the preview uses the first entry
+  const filenamePreview =
+    videoInfo && selectedFormat
+      ? `${renderFilename(
+          filenameTemplate || DEFAULT_FILENAME_TEMPLATE,
+          filenameFieldsFor(videoInfo, selectedFormat, audioOptions, playlist?.entries[0].index)
+        )}.${outputExtension(selectedFormat, audioOptions, audioCandidates(videoInfo.formats, selectedAudio?.itag))}`
+      : null;
+
+  // Ask where to save when the browser lets us write files directly: a file for one
+  // output, a folder for several. Undefined means no picker (downloads go to the browser's
+  // downloads folder); null means the user closed it.
+  const chooseDestination = async (multipleFiles: boolean): Promise<DownloadDestination | null | undefined> => {
+    if (!canPickDestination()) {
+      return undefined;
+    }
+    try {
+      return await pickDestination(filenamePreview || 'download', multipleFiles);
+    } catch (err: any) {
+      setError(`Could not open the save dialog: ${err.message}`);
+      return null;
+    }
+  };
+
+  // Queue the current video in the selected format
+  const downloadVideo = useCallback(async () => {
+    if (!selectedFormat || !videoInfo) {
+      setError('Please select a quality/format');
+      return;
+    }
+
+    setError(null);
+    const destination = streamToDisk ? await chooseDestination(chapterMode === 'split') : undefined;
+    if (destination === null) {
+      return;
+    }
+
+    enqueue([
+      {
+        id: createJobId(),
+        videoId: videoInfo.videoId,
+        title: videoInfo.title,
+        thumbnail: videoInfo.thumbnail,
+        info: videoInfo,
+        format: selectedFormat,
+        options: {
+          audio: audioOptions,
+          trim: trim || undefined,
+          captions: embeddedCaptions,
+          chapterMode,
+          embedMetadata,
+          filenameTemplate,
+          streamToDisk,
+          autoRetry,
+          audioItag: selectedAudio?.itag,
+        },
+        destination,
+        status: 'queued',
+        progress: { stage: 'idle', progress: 0 },
+      },
+    ]);
+  }, [
+    selectedFormat,
+    selectedAudio,
+    videoInfo,
+    audioOptions,
+    trim,
+    embeddedCaptions,
+    chapterMode,
+    embedMetadata,
+    filenameTemplate,
+    streamToDisk,
+    autoRetry,
+    filenamePreview,
+    enqueue,
+  ]);
+
+  // Queue every selected playlist entry; each job applies the shared quality choice
+  // to its own video's format list when it starts
+  const downloadPlaylist = useCallback(async () => {
+    if (!playlist || !selectedFormat) {
+      setError('Please select a quality/format');
+      return;
+    }
+
+    const entries = playlist.entries.filter((entry) => selectedEntries.has(entry.videoId));
+    if (entries.length === 0) {
+      setError('Please select at least one video');
+      return;
+    }
+
+    setError(null);
+    const destination = streamToDisk ? await chooseDestination(true) : undefined;
+    if (destination === null) {
+      return;
+    }
+
+    enqueue(
+      entries.map((entry) => ({
+        id: createJobId(),
+        videoId: entry.videoId,
+        title: entry.title,
+        thumbnail: entry.thumbnail,
+        info: null,
+        format: selectedFormat,
+        options: { audio: audioOptions, embedMetadata, filenameTemplate, streamToDisk, autoRetry, playlistIndex: entry.index },
+        destination,
+        status: 'queued',
+        progress: { stage: 'idle', progress: 0 },
+      }))
+    );
+  }, [
+    playlist,
+    selectedEntries,
+    selectedFormat,
+    audioOptions,
+    embedMetadata,
+    filenameTemplate,
+    streamToDisk,
+    autoRetry,
+    filenamePreview,
+    enqueue,
+  ]);
 
-  // Cancel download
-  const cancelDownload = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+  // Queue a past download again, in the same quality but with the current settings. Like
+  // a playlist entry, the job fetches fresh info and finds the format when it starts.
+  const redownload = useCallback((entry: HistoryEntry) => {
+    enqueue([
+      {
+        id: createJobId(),
+        videoId: entry.videoId,
+        title: entry.title,
+        thumbnail: entry.thumbnail,
+        info: null,
+        format: { ...entry.format, url: '' },
+        options: {
+          audio: entry.audio || DEFAULT_AUDIO_OPTIONS,
+          embedMetadata,
+          filenameTemplate,
+          streamToDisk,
+          autoRetry,
+        },
+        status: 'queued',
+        progress: { stage: 'idle', progress: 0 },
+      },
+    ]);
+  }, [embedMetadata, filenameTemplate, streamToDisk, autoRetry, enqueue]);
+
+  useImperativeHandle(ref, () => ({ redownload }), [redownload]);
+
+  // Toggle a single playlist entry, or every entry at once
+  const toggleEntry = useCallback((videoId: string) => {
+    setSelectedEntries((current) => {
+      const next = new Set(current);
+      if (next.has(videoId)) {
+        next.delete(videoId);
+      } else {
+        next.add(videoId);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleAllEntries = useCallback(() => {
+    if (!playlist) return;
+    setSelectedEntries((current) =>
+      current.size === playlist.entries.length
+        ? new Set()
+        : new Set(playlist.entries.map((entry) => entry.videoId))
+    );
+  }, [playlist]);
+
+  // Cancel a job: queued jobs are dropped, active ones aborted
+  const cancelJob = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateJob(id, { status: 'cancelled' });
     }
-    setProgress({ stage: 'idle', progress: 0 });
+  }, [updateJob]);
+
+  const retryJob = useCallback((id: string) => {
+    // Drop the old info so the retry starts from freshly signed format URLs
+    updateJob(id, { status: 'queued', info: null, error: undefined, progress: { stage: 'idle', progress: 0 } });
+  }, [updateJob]);
+
+  const removeJob = useCallback((id: string) => {
+    setJobs((current) => current.filter((job) => job.id !== id));
   }, []);
 
+  const clearFinishedJobs = useCallback(() => {
+    setJobs((current) => current.filter((job) => job.status === 'queued' || job.status === 'active'));
+  }, []);
+
+  const metadataToggle = (
+    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">
+      <input type="checkbox" checked={embedMetadata} onChange={(e) => setEmbedMetadata(e.target.checked)} />
+      Tag files with title, uploader, date, description and cover art
+    </label>
+  );
+
+  const streamToDiskToggle = streamingSupported && (
+    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">
+      <input type="checkbox" checked={streamToDisk} onChange={(e) => handleStreamToDiskChange(e.target.checked)} />
+      Write downloads straight to disk instead of holding them in memory
+    </label>
+  );
+
+  // Earlier downloads of the current video, and the one at the selected quality
+  const pastDownloads = videoInfo && !playlist ? history.filter((entry) => entry.videoId === videoInfo.videoId) : [];
+  const duplicate = videoInfo && selectedFormat && !playlist
+    ? findDuplicate(pastDownloads, videoInfo.videoId, selectedFormat, audioOptions)
+    : undefined;
+  const playlistDuplicates = playlist && selectedFormat
+    ? playlist.entries.filter(
+        (entry) => selectedEntries.has(entry.videoId) && findDuplicate(history, entry.videoId, selectedFormat, audioOptions)
+      ).length
+    : 0;
+
+  const autoRetryToggle = (
+    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">
+      <input type="checkbox" checked={autoRetry} onChange={(e) => handleAutoRetryChange(e.target.checked)} />
+      Retry failed downloads automatically, with fresh links, another format or the server proxy
+    </label>
+  );
+
   return (
     <div className={className}>
       {/* URL Input */}
@@ -351,13 +1351,13 @@ export default function Downloader({ className = '' }: DownloaderProps) {
                 fetchVideoInfo();
               }
             }}
-            placeholder="https://www.youtube.com/watch?v=..."
+            placeholder="https://www.youtube.com/watch?v=... or a playlist/channel URL"
             className="flex-1 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-            disabled={isLoading || progress.stage !== 'idle'}
+            disabled={isLoading}
           />
           <button
             onClick={fetchVideoInfo}
-            disabled={isLoading || progress.stage !== 'idle'}
+            disabled={isLoading}
             className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg font-medium transition-colors disabled:cursor-not-allowed"
           >
             {isLoading ? 'Loading...' : 'Fetch Info'}
@@ -372,8 +1372,103 @@ export default function Downloader({ className = '' }: DownloaderProps) {
         </div>
       )}
 
+      {/* Playlist */}
+      {playlist && videoInfo && (
+        <div className="mb-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                {playlist.title}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                By: {playlist.author} · {selectedEntries.size} of {playlist.entries.length} videos selected
+              </p>
+            </div>
+            <button
+              onClick={toggleAllEntries}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              {selectedEntries.size === playlist.entries.length ? 'Deselect all' : 'Select all'}
+            </button>
+          </div>
+
+          <ul className="mb-4 max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {playlist.entries.map((entry) => (
+              <li key={entry.videoId}>
+                <label className="flex items-center gap-3 p-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <input
+                    type="checkbox"
+                    checked={selectedEntries.has(entry.videoId)}
+                    onChange={() => toggleEntry(entry.videoId)}
+                  />
+                  <span className="w-8 text-right text-xs text-gray-500 dark:text-gray-400">{entry.index}</span>
+                  <img src={entry.thumbnail} alt={entry.title} className="w-20 h-12 object-cover rounded" />
+                  <span className="flex-1 text-sm text-gray-900 dark:text-gray-100 truncate">{entry.title}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{entry.durationFormatted}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          {/* Preset and Quality Selector (shared by every selected video) */}
+          <PresetSelector
+            presets={presets}
+            activePresetId={activePresetId}
+            defaultPresetId={defaultPresetId}
+            onApply={(preset) => applyPreset(videoInfo, preset)}
+            onSetDefault={handleDefaultPresetChange}
+            onSave={savePreset}
+            onDelete={deletePreset}
+            canSave={Boolean(selectedFormat)}
+            className="mb-2"
+          />
+          <QualitySelector
+            formats={videoInfo.formats}
+            selectedFormat={selectedFormat}
+            onSelectFormat={selectFormat}
+            className="mb-2"
+          />
+          {selectedFormat?.hasAudio && !selectedFormat.hasVideo && (
+            <AudioOptionsSelector options={audioOptions} onChange={setAudioOptions} className="mb-2" />
+          )}
+          {filenamePreview && (
+            <FilenameTemplateInput
+              template={filenameTemplate}
+              onChange={handleFilenameTemplateChange}
+              preview={filenamePreview}
+              className="mb-2"
+            />
+          )}
+          <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+            The quality is applied to every selected video. When a video lacks it, the closest lower quality is used.
+          </p>
+          {metadataToggle}
+          {streamToDiskToggle}
+          {autoRetryToggle}
+
+          {playlistDuplicates > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="text-sm text-amber-800 dark:text-amber-200">
+                ⚠️ {playlistDuplicates} of the selected videos {playlistDuplicates === 1 ? 'is' : 'are'} already in your history at this quality.
+              </p>
+            </div>
+          )}
+
+          {/* Download Button */}
+          <div className="flex gap-2">
+            <button
+              onClick={downloadPlaylist}
+              disabled={!selectedFormat || selectedEntries.size === 0}
+              className="flex-1 px-6 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg font-medium transition-colors disabled:cursor-not-allowed"
+            >
+              Add {selectedEntries.size} {selectedEntries.size === 1 ? 'video' : 'videos'} to queue
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Video Info */}
-      {videoInfo && (
+      {!playlist && videoInfo && (
         <div className="mb-6">
           <div className="flex gap-4 mb-4">
             <img
@@ -394,54 +1489,146 @@ export default function Downloader({ className = '' }: DownloaderProps) {
             </div>
           </div>
 
-          {/* Quality Selector */}
-          <QualitySelector
-            formats={videoInfo.formats}
-            selectedFormat={selectedFormat}
-            onSelectFormat={setSelectedFormat}
+          {/* Preset, then the Quality Selector or every stream for picking exactly */}
+          <PresetSelector
+            presets={presets}
+            activePresetId={activePresetId}
+            defaultPresetId={defaultPresetId}
+            onApply={(preset) => applyPreset(videoInfo, preset)}
+            onSetDefault={handleDefaultPresetChange}
+            onSave={savePreset}
+            onDelete={deletePreset}
+            canSave={Boolean(selectedFormat)}
             className="mb-4"
           />
+          <div className="flex justify-end mb-1">
+            <button
+              onClick={toggleAdvancedFormats}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {advancedFormats ? 'Simple quality list' : 'Show all streams'}
+            </button>
+          </div>
+          {advancedFormats ? (
+            <FormatTable
+              formats={videoInfo.formats}
+              duration={videoInfo.duration}
+              selectedFormat={selectedFormat}
+              onSelectFormat={selectFormat}
+              selectedAudio={selectedAudio}
+              onSelectAudio={selectAudio}
+              className="mb-4"
+            />
+          ) : (
+            <QualitySelector
+              formats={videoInfo.formats}
+              selectedFormat={selectedFormat}
+              onSelectFormat={selectFormat}
+              className="mb-4"
+            />
+          )}
+          {selectedFormat?.hasAudio && !selectedFormat.hasVideo && (
+            <AudioOptionsSelector options={audioOptions} onChange={setAudioOptions} className="mb-4" />
+          )}
+          {filenamePreview && (
+            <FilenameTemplateInput
+              template={filenameTemplate}
+              onChange={handleFilenameTemplateChange}
+              preview={filenamePreview}
+              className="mb-4"
+            />
+          )}
+
+          {/* Clip Range */}
+          <TrimSelector
+            key={videoInfo.videoId}
+            duration={videoInfo.duration}
+            initialStart={urlStartTime}
+            onChange={handleTrimChange}
+            className="mb-4"
+          />
+
+          {/* Subtitles */}
+          {videoInfo.captions.length > 0 && (
+            <CaptionSelector
+              videoId={videoInfo.videoId}
+              tracks={videoInfo.captions}
+              selected={embeddedCaptions}
+              onChange={setEmbeddedCaptions}
+              canEmbed={Boolean(selectedFormat?.hasVideo)}
+              className="mb-4"
+            />
+          )}
+
+          {/* Chapters */}
+          {videoInfo.chapters.length > 0 && (
+            <ChapterSelector
+              chapters={videoInfo.chapters}
+              mode={chapterMode}
+              onChange={setChapterMode}
+              className="mb-4"
+            />
+          )}
+
+          {/* File Tags */}
+          {metadataToggle}
+          {streamToDiskToggle}
+          {autoRetryToggle}
           
           {/* Helpful tip about format selection */}
           {videoInfo.formats.some(f => f.hasVideo && f.hasAudio) && (
             <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
               <p className="text-sm text-blue-800 dark:text-blue-200">
-                💡 <strong>Tip:</strong> Formats marked "(Video + Audio)" use native browser downloads and work most reliably. 
+                💡 <strong>Tip:</strong> Formats marked "(Video + Audio)" work most reliably, and use native browser downloads when file tagging is off. 
                 Formats requiring merging may encounter YouTube restrictions.
               </p>
             </div>
           )}
 
+          {/* Already downloaded */}
+          {pastDownloads.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="text-sm text-amber-800 dark:text-amber-200">
+                {duplicate ? (
+                  <>
+                    ⚠️ You already downloaded this video at {historyQuality(duplicate.format, duplicate.audio)} on{' '}
+                    {new Date(duplicate.downloadedAt).toLocaleDateString()} as <strong>{duplicate.filename}</strong>.
+                  </>
+                ) : (
+                  <>
+                    You downloaded this video before at{' '}
+                    {[...new Set(pastDownloads.map((entry) => historyQuality(entry.format, entry.audio)))].join(', ')}.
+                  </>
+                )}
+              </p>
+            </div>
+          )}
+
           {/* Download Button */}
           <div className="flex gap-2">
             <button
               onClick={downloadVideo}
-              disabled={!selectedFormat || progress.stage !== 'idle'}
+              disabled={!selectedFormat || !trimValid}
               className="flex-1 px-6 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg font-medium transition-colors disabled:cursor-not-allowed"
             >
               Download
             </button>
-            {progress.stage !== 'idle' && progress.stage !== 'complete' && (
-              <button
-                onClick={cancelDownload}
-                className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
-              >
-                Cancel
-              </button>
-            )}
           </div>
         </div>
       )}
 
-      {/* Progress Bar */}
-      {progress.stage !== 'idle' && (
-        <div className="mt-6">
-          <ProgressBar
-            progress={progress.progress}
-            label={progress.message}
-            stage={progress.stage}
-          />
-        </div>
+      {/* Download Queue */}
+      {jobs.length > 0 && (
+        <DownloadQueue
+          jobs={jobs}
+          concurrency={concurrency}
+          onConcurrencyChange={setConcurrency}
+          onCancel={cancelJob}
+          onRetry={retryJob}
+          onRemove={removeJob}
+          onClearFinished={clearFinishedJobs}
+          className="mt-6"
+        />
       )}
     </div>
   );
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { FILENAME_PLACEHOLDERS } from '@/lib/filename';
+
+interface FilenameTemplateInputProps {
+  template: string;
+  onChange: (template: string) => void;
+  // Filename the current video would be saved as
+  preview: string;
+  className?: string;
+}
+
+export default function FilenameTemplateInput({
+  template,
+  onChange,
+  preview,
+  className = '',
+}: FilenameTemplateInputProps) {
+  return (
+    <div className={className}>
+      <label
+        htmlFor="filename-template"
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+      >
+        Filename
+      </label>
+      <input
+        id="filename-template"
+        type="text"
+        value={template}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="{title}"
+        className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+      />
+      <div className="mt-1 flex flex-wrap gap-2">
+        {FILENAME_PLACEHOLDERS.map((placeholder) => (
+          <button
+            key={placeholder.name}
+            type="button"
+            title={placeholder.description}
+            onClick={() => onChange(`${template}{${placeholder.name}}`)}
+            className="px-2 py-0.5 text-xs font-mono text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 rounded hover:underline"
+          >
+            {`{${placeholder.name}}`}
+          </button>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 break-all">
+        Saved as: <span className="font-mono text-gray-700 dark:text-gray-300">{preview}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { VideoFormat } from '@/types/video';
+import { audioCandidates, codecName, describePairing, formatSize, pairFormats } from '@/lib/formats';
+import { formatBytes } from '@/lib/transferRate';
+
+interface FormatTableProps {
+  formats: VideoFormat[];
+  // Seconds, for estimating sizes YouTube doesn't give
+  duration: number;
+  selectedFormat: VideoFormat | null;
+  onSelectFormat: (format: VideoFormat) => void;
+  // Audio merged with a video-only format; null pairs it automatically
+  selectedAudio: VideoFormat | null;
+  onSelectAudio: (format: VideoFormat | null) => void;
+  className?: string;
+}
+
+type Kind = 'all' | 'combined' | 'video' | 'audio';
+type SortKey = 'resolution' | 'fps' | 'bitrate' | 'size';
+
+const KIND_LABELS: Record<Kind, string> = {
+  all: 'All streams',
+  combined: 'Video + audio',
+  video: 'Video only',
+  audio: 'Audio only',
+};
+
+const COLUMNS: { key: SortKey | null; label: string }[] = [
+  { key: null, label: 'Type' },
+  { key: 'resolution', label: 'Resolution' },
+  { key: 'fps', label: 'FPS' },
+  { key: null, label: 'Codec' },
+  { key: 'bitrate', label: 'Bitrate' },
+  { key: 'size', label: 'Size' },
+];
+
+function kindOf(format: VideoFormat): Exclude<Kind, 'all'> {
+  if (format.hasVideo) {
+    return format.hasAudio ? 'combined' : 'video';
+  }
+  return 'audio';
+}
+
+function codecsOf(format: VideoFormat): string {
+  return [format.hasVideo && codecName(format.videoCodec), format.hasAudio && codecName(format.audioCodec)]
+    .filter(Boolean)
+    .join(' + ');
+}
+
+function formatBitrate(bitrate?: number): string {
+  if (!bitrate) {
+    return '—';
+  }
+  return bitrate >= 1000000 ? `${(bitrate / 1000000).toFixed(1)} Mbps` : `${Math.round(bitrate / 1000)} kbps`;
+}
+
+function describeSize(format: VideoFormat, duration: number): string {
+  const size = formatSize(format, duration);
+  return size ? `${size.estimated ? '~' : ''}${formatBytes(size.bytes)}` : '—';
+}
+
+// Every stream YouTube offers, with the details the simple quality list hides, so any
+// video stream can be picked and merged with any audio stream
+export default function FormatTable({
+  formats,
+  duration,
+  selectedFormat,
+  onSelectFormat,
+  selectedAudio,
+  onSelectAudio,
+  className = '',
+}: FormatTableProps) {
+  const [kind, setKind] = useState<Kind>('all');
+  const [codec, setCodec] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'resolution', descending: true });
+
+  const codecs = useMemo(() => Array.from(new Set(formats.map(codecsOf))).sort(), [formats]);
+  const audioFormats = useMemo(
+    () => formats.filter((f) => f.hasAudio && !f.hasVideo).sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0)),
+    [formats]
+  );
+
+  const rows = useMemo(() => {
+    const value = (format: VideoFormat): number => {
+      switch (sort.key) {
+        case 'resolution':
+          // Audio streams sort below every video stream
+          return format.hasVideo ? (format.height || 0) * (format.width || 1) : -1;
+        case 'fps':
+          return format.fps || 0;
+        case 'bitrate':
+          return format.bitrate || 0;
+        case 'size':
+          return formatSize(format, duration)?.bytes || 0;
+      }
+    };
+    return formats
+      .filter((f) => (kind === 'all' || kindOf(f) === kind) && (!codec || codecsOf(f) === codec))
+      .sort((a, b) => {
+        const difference = value(a) - value(b) || (a.bitrate || 0) - (b.bitrate || 0);
+        return sort.descending ? -difference : difference;
+      });
+  }, [formats, duration, kind, codec, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : true }));
+  };
+
+  const needsAudio = Boolean(selectedFormat?.hasVideo && !selectedFormat.hasAudio);
+  const pairing = needsAudio ? pairFormats(audioCandidates(formats, selectedAudio?.itag), selectedFormat!) : null;
+  const selectClass =
+    'px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors';
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap gap-2 mb-2">
+        <select value={kind} onChange={(e) => setKind(e.target.value as Kind)} aria-label="Stream type" className={selectClass}>
+          {(Object.keys(KIND_LABELS) as Kind[]).map((value) => (
+            <option key={value} value={value}>
+              {KIND_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <select value={codec} onChange={(e) => setCodec(e.target.value)} aria-label="Codec" className={selectClass}>
+          <option value="">All codecs</option>
+          {codecs.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <span className="self-center text-xs text-gray-500 dark:text-gray-400">
+          {rows.length} of {formats.length} streams
+        </span>
+      </div>
+
+      <div className="max-h-80 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+        <table className="w-full text-sm text-left">
+          <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900 text-xs text-gray-600 dark:text-gray-400">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th key={column.label} className="px-3 py-2 font-medium whitespace-nowrap">
+                  {column.key ? (
+                    <button
+                      onClick={() => toggleSort(column.key!)}
+                      className="hover:text-gray-900 dark:hover:text-gray-100"
+                      aria-label={`Sort by ${column.label.toLowerCase()}`}
+                    >
+                      {column.label}
+                      {sort.key === column.key && (sort.descending ? ' ▼' : ' ▲')}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {rows.map((format) => {
+              const selected = format.itag === selectedFormat?.itag;
+              return (
+                <tr
+                  key={format.itag}
+                  onClick={() => onSelectFormat(format)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      onSelectFormat(format);
+                    }
+                  }}
+                  tabIndex={0}
+                  aria-selected={selected}
+                  className={`cursor-pointer ${
+                    selected ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {KIND_LABELS[kindOf(format)]}
+                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{format.container.toUpperCase()}</span>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {format.hasVideo ? `${format.width || '?'}×${format.height || '?'}` : '—'}
+                    {format.hdr && (
+                      <span className="ml-1 px-1 text-xs rounded bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200">
+                        HDR
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">{format.hasVideo && format.fps ? format.fps : '—'}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{codecsOf(format)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{formatBitrate(format.bitrate)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{describeSize(format, duration)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Audio partner for a video-only stream */}
+      {needsAudio && (
+        <div className="mt-2">
+          <label htmlFor="merge-audio" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Merge with audio
+          </label>
+          <select
+            id="merge-audio"
+            value={selectedAudio?.itag ?? ''}
+            onChange={(e) => onSelectAudio(audioFormats.find((f) => f.itag === parseInt(e.target.value, 10)) || null)}
+            className={`w-full ${selectClass}`}
+          >
+            <option value="">Automatic (best compatible audio)</option>
+            {audioFormats.map((format) => (
+              <option key={format.itag} value={format.itag}>
+                {codecName(format.audioCodec)} {formatBitrate(format.bitrate)} · {describeSize(format, duration)}
+              </option>
+            ))}
+          </select>
+          {pairing && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Output: {describePairing(selectedFormat!, pairing)}
+              {pairing.container === 'mkv' && ' (these codecs only fit together in Matroska)'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
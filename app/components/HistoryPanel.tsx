@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Download, Trash2 } from 'lucide-react';
+import type { HistoryEntry } from '@/types/video';
+import { historyQuality, searchHistory } from '@/lib/client/history';
+import { formatBytes } from '@/lib/transferRate';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  onRedownload: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  // Null while the history isn't synced
+  syncId: string | null;
+  syncError: string | null;
+  // Start syncing under a code from another browser, or a new one when none is given
+  onEnableSync: (syncId?: string) => void;
+  onDisableSync: () => void;
+  className?: string;
+}
+
+const SYNC_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+export default function HistoryPanel({
+  entries,
+  onRedownload,
+  onDelete,
+  syncId,
+  syncError,
+  onEnableSync,
+  onDisableSync,
+  className = '',
+}: HistoryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [syncCode, setSyncCode] = useState('');
+  const results = useMemo(() => searchHistory(entries, query), [entries, query]);
+  const code = syncCode.trim().toLowerCase();
+  const codeValid = SYNC_ID_PATTERN.test(code);
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">History</h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {entries.length} {entries.length === 1 ? 'download' : 'downloads'}
+        </span>
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by title or filename"
+        aria-label="Search history"
+        className="w-full mb-3 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+      />
+
+      {results.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+          {entries.length === 0 ? 'Finished downloads appear here.' : 'No downloads match your search.'}
+        </p>
+      ) : (
+        <ul className="max-h-[32rem] overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+          {results.map((entry) => (
+            <li key={entry.id} className="flex gap-2 py-2">
+              <img src={entry.thumbnail} alt={entry.title} className="w-16 h-10 object-cover rounded" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate" title={entry.title}>
+                  {entry.title}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={entry.filename}>
+                  {entry.filename}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {[
+                    historyQuality(entry.format, entry.audio),
+                    entry.size ? `~${formatBytes(entry.size)}` : null,
+                    new Date(entry.downloadedAt).toLocaleDateString(),
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </div>
+              <div className="flex flex-col gap-1">
+                <button
+                  onClick={() => onRedownload(entry)}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Download again"
+                  title="Download again"
+                >
+                  <Download className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Delete from history"
+                  title="Delete from history"
+                >
+                  <Trash2 className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Sync */}
+      <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+        {syncId ? (
+          <>
+            <p className="mb-1">Synced under this code. Enter it in another browser to share the history:</p>
+            <code className="block mb-2 p-2 bg-gray-100 dark:bg-gray-900 rounded break-all select-all text-gray-900 dark:text-gray-100">
+              {syncId}
+            </code>
+            <button onClick={onDisableSync} className="text-blue-600 dark:text-blue-400 hover:underline">
+              Stop syncing
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="mb-2">History is kept in this browser. Sync it to use it in other browsers too.</p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={syncCode}
+                onChange={(e) => setSyncCode(e.target.value)}
+                placeholder="Sync code (optional)"
+                aria-label="Sync code from another browser"
+                className="flex-1 min-w-0 px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-gray-100"
+              />
+              <button
+                onClick={() => onEnableSync(codeValid ? code : undefined)}
+                disabled={code !== '' && !codeValid}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded font-medium transition-colors disabled:cursor-not-allowed"
+              >
+                Sync
+              </button>
+            </div>
+          </>
+        )}
+        {syncError && <p className="mt-2 text-red-700 dark:text-red-300">{syncError}</p>}
+      </div>
+    </div>
+  );
+}
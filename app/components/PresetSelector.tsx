@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { QualityPreset } from '@/lib/presets';
+
+interface PresetSelectorProps {
+  presets: QualityPreset[];
+  // Preset the current format came from; null after choosing a format by hand
+  activePresetId: string | null;
+  defaultPresetId: string;
+  onApply: (preset: QualityPreset) => void;
+  onSetDefault: (id: string) => void;
+  // Save the current format choice as a new preset
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  canSave: boolean;
+  className?: string;
+}
+
+export default function PresetSelector({
+  presets,
+  activePresetId,
+  defaultPresetId,
+  onApply,
+  onSetDefault,
+  onSave,
+  onDelete,
+  canSave,
+  className = '',
+}: PresetSelectorProps) {
+  const [name, setName] = useState('');
+  const active = presets.find((preset) => preset.id === activePresetId);
+  const buttonClass =
+    'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  const save = () => {
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className={className}>
+      <label htmlFor="quality-preset" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Preset
+      </label>
+      <div className="flex gap-2">
+        <select
+          id="quality-preset"
+          value={activePresetId ?? ''}
+          onChange={(e) => {
+            const preset = presets.find((p) => p.id === e.target.value);
+            if (preset) {
+              onApply(preset);
+            }
+          }}
+          className="flex-1 min-w-0 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        >
+          <option value="" disabled>
+            Chosen by hand
+          </option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+              {preset.id === defaultPresetId ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => active && onSetDefault(active.id)}
+          disabled={!active || active.id === defaultPresetId}
+          className={buttonClass}
+          title="Apply this preset to every video you fetch"
+        >
+          Make default
+        </button>
+        {active && !active.builtIn && (
+          <button onClick={() => onDelete(active.id)} className={buttonClass}>
+            Delete
+          </button>
+        )}
+      </div>
+      {canSave && !active && (
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim()) {
+                save();
+              }
+            }}
+            placeholder="Name this choice to reuse it"
+            aria-label="Preset name"
+            className="flex-1 min-w-0 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+          />
+          <button onClick={save} disabled={!name.trim()} className={buttonClass}>
+            Save preset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
 'use client';
 
 import React from 'react';
+import { formatTransfer } from '@/lib/transferRate';
 
 interface ProgressBarProps {
   progress: number;
   label?: string;
   stage?: string;
   className?: string;
+  // Bytes per second and seconds left, shown while a transfer is running
+  speed?: number;
+  eta?: number;
 }
 
-export default function ProgressBar({ progress, label, stage, className = '' }: ProgressBarProps) {
+export default function ProgressBar({ progress, label, stage, className = '', speed, eta }: ProgressBarProps) {
   const clampedProgress = Math.min(100, Math.max(0, progress));
 
   return (
@@ -36,7 +40,10 @@ export default function ProgressBar({ progress, label, stage, className = '' }:
           <div className="h-full w-full bg-gradient-to-r from-blue-500 to-blue-600 dark:from-blue-400 dark:to-blue-500 animate-pulse" />
         </div>
       </div>
-      <div className="mt-1 text-right">
+      <div className="mt-1 flex justify-between">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {speed ? formatTransfer({ speed, eta }) : ''}
+        </span>
         <span className="text-xs text-gray-500 dark:text-gray-400">
           {Math.round(clampedProgress)}%
         </span>
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import type { VideoFormat, QualityOption } from '@/types/video';
+import { codecName, describePairing, pairFormats } from '@/lib/formats';
 
 interface QualitySelectorProps {
   formats: VideoFormat[];
@@ -30,7 +31,7 @@ export default function QualitySelector({
       const bestAudio = audioFormats[0];
       options.push({
         value: `audio-${bestAudio.itag}`,
-        label: 'MP3 Audio (Best Quality)',
+        label: 'Audio Only (Best Quality)',
         format: bestAudio,
         requiresMerge: false,
         group: 'audio',
@@ -57,11 +58,14 @@ export default function QualitySelector({
       const hasAudio = format.hasAudio;
       const requiresMerge = !hasAudio;
 
-      let label = `${qualityLabel} ${format.container.toUpperCase()}`;
-      if (hasAudio) {
-        label += ' (Video + Audio)';
+      // Name the codecs and container of the file that is actually produced
+      let label: string;
+      const pairing = hasAudio ? null : pairFormats(formats, format);
+      if (pairing) {
+        label = `${qualityLabel} ${describePairing(format, pairing)} (Video Only - will merge with audio)`;
       } else {
-        label += ' (Video Only - will merge with audio)';
+        const codecs = hasAudio ? `${codecName(format.videoCodec)} + ${codecName(format.audioCodec)}` : codecName(format.videoCodec);
+        label = `${qualityLabel} ${codecs} ${format.container.toUpperCase()}${hasAudio ? ' (Video + Audio)' : ' (Video Only)'}`;
       }
 
       options.push({
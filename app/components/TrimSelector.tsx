@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import type { TrimRange } from '@/types/video';
+import { formatDuration, parseTimestamp, validateTrimRange } from '@/lib/formats';
+
+interface TrimSelectorProps {
+  duration: number;
+  // Prefills the start time and enables trimming (e.g. from a `t=` URL parameter)
+  initialStart?: number | null;
+  // Called with the clip, or null for the whole video; `valid` is false while the inputs are wrong
+  onChange: (trim: TrimRange | null, valid: boolean) => void;
+  className?: string;
+}
+
+export default function TrimSelector({ duration, initialStart, onChange, className = '' }: TrimSelectorProps) {
+  const [enabled, setEnabled] = React.useState(initialStart != null && initialStart > 0);
+  const [startText, setStartText] = React.useState(formatDuration(initialStart || 0));
+  const [endText, setEndText] = React.useState(formatDuration(duration));
+
+  const error = React.useMemo(() => {
+    if (!enabled) return null;
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+    if (start === null || end === null) {
+      return 'Use seconds, MM:SS or HH:MM:SS';
+    }
+    return validateTrimRange({ start, end }, duration);
+  }, [enabled, startText, endText, duration]);
+
+  React.useEffect(() => {
+    if (!enabled) {
+      onChange(null, true);
+      return;
+    }
+    if (error) {
+      onChange(null, false);
+      return;
+    }
+    onChange({ start: parseTimestamp(startText)!, end: parseTimestamp(endText)! }, true);
+  }, [enabled, startText, endText, error, onChange]);
+
+  const inputClassName =
+    'w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50';
+
+  return (
+    <div className={className}>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        Download only a clip
+      </label>
+      {enabled && (
+        <>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="trim-start" className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                Start
+              </label>
+              <input
+                id="trim-start"
+                type="text"
+                value={startText}
+                onChange={(e) => setStartText(e.target.value)}
+                placeholder="0:00"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="trim-end" className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                End
+              </label>
+              <input
+                id="trim-end"
+                type="text"
+                value={endText}
+                onChange={(e) => setEndText(e.target.value)}
+                placeholder={formatDuration(duration)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          {error ? (
+            <p className="mt-1 text-xs text-red-700 dark:text-red-300">{error}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Cuts that land on a keyframe are copied as-is; other cuts re-encode the video, which takes longer.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
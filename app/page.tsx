@@ -1,4 +1,4 @@
-import Downloader from './components/Downloader';
+import DownloadWorkspace from './components/DownloadWorkspace';
 import ThemeToggle from './components/ThemeToggle';
 
 export default function Home() {
@@ -6,7 +6,7 @@ export default function Home() {
     <main className="min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* Header */}
       <header className="border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800">
-        <div className="max-w-4xl mx-auto px-4 py-4 flex justify-between items-center">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
             YouTube Video Downloader
           </h1>
@@ -15,10 +15,8 @@ export default function Home() {
       </header>
 
       {/* Main Content */}
-      <div className="max-w-4xl mx-auto px-4 py-8">
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 md:p-8">
-          <Downloader />
-        </div>
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <DownloadWorkspace />
 
         {/* Footer Info */}
         <div className="mt-8 text-center text-sm text-gray-500 dark:text-gray-400">
@@ -0,0 +1,45 @@
+import type { Chapter, TrimRange } from '@/types/video';
+
+// Chapter helpers shared by the browser and server pipelines
+
+export interface ChapterSegment extends TrimRange {
+  title: string;
+}
+
+// Turn chapter start times into ranges. With a clip, chapters are cut to the clip and
+// their times become relative to the clip start, matching the output file.
+export function chapterSegments(chapters: Chapter[], duration: number, trim?: TrimRange): ChapterSegment[] {
+  const clipStart = trim?.start ?? 0;
+  const clipEnd = trim?.end ?? duration;
+  const segments: ChapterSegment[] = [];
+
+  chapters.forEach((chapter, i) => {
+    const end = i + 1 < chapters.length ? chapters[i + 1].start : duration;
+    const start = Math.max(chapter.start, clipStart);
+    const cappedEnd = Math.min(end, clipEnd);
+    if (cappedEnd > start) {
+      segments.push({ title: chapter.title, start: start - clipStart, end: cappedEnd - clipStart });
+    }
+  });
+
+  return segments;
+}
+
+// FFMETADATA values escape `=`, `;`, `#`, `\` and newlines with a backslash
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+}
+
+// Build an FFMETADATA file describing the chapters, for `-map_chapters`
+export function buildChapterMetadata(segments: ChapterSegment[]): string {
+  const blocks = segments.map((segment) =>
+    [
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(segment.start * 1000)}`,
+      `END=${Math.round(segment.end * 1000)}`,
+      `title=${escapeMetadata(segment.title)}`,
+    ].join('\n')
+  );
+  return `;FFMETADATA1\n${blocks.join('\n')}\n`;
+}
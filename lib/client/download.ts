@@ -0,0 +1,309 @@
+import type { ByteRange } from '@/lib/range';
+import type { ApiErrorCode } from '@/types/api';
+import { codeForStatus, isApiErrorCode } from '@/lib/errors';
+
+// Fetching media streams. Single requests resume after a network drop from the last byte
+// received; large streams are split into ranges fetched over several connections. Bytes
+// go to a sink in order, so they can be collected in memory or written straight to disk.
+
+export class DownloadHttpError extends Error {
+  constructor(public status: number, public code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'DownloadHttpError';
+  }
+}
+
+// Our API routes explain failures in a JSON body; YouTube's answers only have a status
+async function httpError(response: Response): Promise<DownloadHttpError> {
+  const fallback = `Failed to download: ${response.statusText} (${response.status})`;
+  if (response.headers.get('Content-Type')?.includes('application/json')) {
+    const body = await response.json().catch(() => null);
+    if (body && isApiErrorCode(body.error)) {
+      return new DownloadHttpError(response.status, body.error, body.message || fallback);
+    }
+  }
+  return new DownloadHttpError(response.status, codeForStatus(response.status), fallback);
+}
+
+// Receives the downloaded bytes in order
+export interface ByteSink {
+  write(data: Uint8Array | Blob): Promise<void>;
+}
+
+export interface ResumableFetchOptions {
+  signal?: AbortSignal;
+  // Percentage, when the total size is known
+  onProgress?: (progress: number) => void;
+  // Resume attempts after data has started arriving
+  maxResumes?: number;
+}
+
+const DEFAULT_MAX_RESUMES = 5;
+
+// Collects everything written to it
+export class MemorySink implements ByteSink {
+  parts: (Uint8Array | Blob)[] = [];
+
+  async write(data: Uint8Array | Blob) {
+    this.parts.push(data);
+  }
+
+  toBlob(type: string): Blob {
+    return new Blob(this.parts as BlobPart[], { type });
+  }
+}
+
+// Total size from `Content-Range: bytes a-b/total`, or the length of a full response
+function parseTotalSize(response: Response): number | null {
+  const contentRange = response.headers.get('Content-Range');
+  const match = contentRange && /\/(\d+)$/.exec(contentRange);
+  if (match) {
+    return parseInt(match[1], 10);
+  }
+  const contentLength = response.headers.get('Content-Length');
+  return response.status === 200 && contentLength ? parseInt(contentLength, 10) : null;
+}
+
+// Wait `ms`, rejecting early when `signal` aborts
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// Stream `url` into `sink` and return the content type. Errors before any data arrives
+// (including CORS failures) are thrown as-is so the caller can try another route.
+export async function fetchResumableTo(
+  url: string,
+  sink: ByteSink,
+  { signal, onProgress, maxResumes = DEFAULT_MAX_RESUMES }: ResumableFetchOptions = {}
+): Promise<string> {
+  let received = 0;
+  let total: number | null = null;
+  let type = '';
+  let resumes = 0;
+
+  for (;;) {
+    try {
+      const response = await fetch(url, {
+        signal,
+        headers: received > 0 ? { Range: `bytes=${received}-` } : undefined,
+      });
+      if (!response.ok) {
+        throw await httpError(response);
+      }
+
+      // A server that ignores the range sends the whole file again; skip what we have
+      let skip = received > 0 && response.status !== 206 ? received : 0;
+      total = total ?? parseTotalSize(response);
+      type = type || response.headers.get('Content-Type') || '';
+
+      const reader = response.body!.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        let chunk = value;
+        if (skip > 0) {
+          const skipped = Math.min(skip, chunk.length);
+          chunk = chunk.subarray(skipped);
+          skip -= skipped;
+          if (chunk.length === 0) continue;
+        }
+        await sink.write(chunk);
+        received += chunk.length;
+        if (onProgress && total) {
+          onProgress((received / total) * 100);
+        }
+      }
+
+      if (total !== null && received < total) {
+        throw new TypeError(`Connection closed after ${received} of ${total} bytes`);
+      }
+      return type;
+    } catch (error) {
+      if (signal?.aborted || error instanceof DownloadHttpError || received === 0 || resumes >= maxResumes) {
+        throw error;
+      }
+      resumes++;
+      await delay(Math.min(1000 * 2 ** (resumes - 1), 10000), signal);
+    }
+  }
+}
+
+export interface SegmentedFetchOptions {
+  // Total size in bytes, from the format's contentLength
+  size: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  chunkSize?: number;
+  // Chunks fetched at the same time
+  connections?: number;
+  // Attempts per chunk before the whole download fails
+  maxAttempts?: number;
+}
+
+// Builds the request for one chunk, e.g. a `Range` header or a proxy URL with start/end
+export type ChunkRequest = (range: ByteRange) => { url: string; headers?: HeadersInit };
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+const DEFAULT_CONNECTIONS = 4;
+const DEFAULT_MAX_ATTEMPTS = 4;
+
+// Network errors, server errors and throttling are worth retrying; other HTTP errors
+// (e.g. 403 from YouTube) will not change
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DownloadHttpError) {
+    return error.status >= 500 || error.status === 429 || error.status === 408;
+  }
+  return true;
+}
+
+async function fetchChunk(
+  request: ChunkRequest,
+  range: ByteRange,
+  signal: AbortSignal,
+  onBytes: (loaded: number) => void
+): Promise<Blob> {
+  const { url, headers } = request(range);
+  const response = await fetch(url, { signal, headers });
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+
+  const parts: Uint8Array[] = [];
+  let loaded = 0;
+  const reader = response.body!.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    loaded += value.length;
+    onBytes(loaded);
+  }
+
+  const expected = range.end - range.start + 1;
+  if (loaded !== expected) {
+    throw new TypeError(`Chunk ${range.start}-${range.end} returned ${loaded} of ${expected} bytes`);
+  }
+  return new Blob(parts as BlobPart[], { type: response.headers.get('Content-Type') || '' });
+}
+
+// Download `size` bytes as fixed-size ranges over several connections, retrying each
+// range on its own, and write them to `sink` in order. Finished chunks wait in memory
+// for the ones before them, and workers stay at most two chunks per connection ahead of
+// the sink, so memory use is bounded by the chunk size. Returns the content type.
+export async function fetchSegmentedTo(
+  request: ChunkRequest,
+  sink: ByteSink,
+  {
+    size,
+    signal,
+    onProgress,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    connections = DEFAULT_CONNECTIONS,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  }: SegmentedFetchOptions
+): Promise<string> {
+  const ranges: ByteRange[] = [];
+  for (let start = 0; start < size; start += chunkSize) {
+    ranges.push({ start, end: Math.min(start + chunkSize, size) - 1 });
+  }
+  const lookahead = connections * 2;
+
+  // One failed chunk or write stops the others
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  const loaded: number[] = new Array(ranges.length).fill(0);
+  const finished = new Map<number, Blob>();
+  let next = 0;
+  let written = 0;
+  let type = '';
+  let writing: Promise<void> = Promise.resolve();
+  const wake: (() => void)[] = [];
+
+  const reportBytes = (index: number, bytes: number) => {
+    loaded[index] = bytes;
+    onProgress?.((loaded.reduce((sum, value) => sum + value, 0) / size) * 100);
+  };
+
+  // Write every finished chunk that is next in line
+  const flush = () => {
+    writing = writing.then(async () => {
+      while (finished.has(written)) {
+        const chunk = finished.get(written)!;
+        finished.delete(written);
+        type = type || chunk.type;
+        await sink.write(chunk);
+        written++;
+        wake.splice(0).forEach((resolve) => resolve());
+      }
+    });
+    writing.catch(abort);
+    return writing;
+  };
+
+  const worker = async () => {
+    for (;;) {
+      while (next - written >= lookahead && !controller.signal.aborted) {
+        await new Promise<void>((resolve) => wake.push(resolve));
+      }
+      if (controller.signal.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+      }
+      if (next >= ranges.length) {
+        return;
+      }
+
+      const index = next++;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const chunk = await fetchChunk(request, ranges[index], controller.signal, (bytes) =>
+            reportBytes(index, bytes)
+          );
+          finished.set(index, chunk);
+          flush();
+          break;
+        } catch (error) {
+          reportBytes(index, 0);
+          if (controller.signal.aborted || attempt >= maxAttempts || !isRetryable(error)) {
+            throw error;
+          }
+          await delay(Math.min(1000 * 2 ** (attempt - 1), 10000), controller.signal);
+        }
+      }
+    }
+  };
+
+  // Waiting workers have to notice an abort too
+  controller.signal.addEventListener('abort', () => wake.splice(0).forEach((resolve) => resolve()), { once: true });
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(connections, ranges.length) }, () =>
+        worker().catch((error) => {
+          controller.abort();
+          throw error;
+        })
+      )
+    );
+    await flush();
+  } catch (error) {
+    // Report the caller's abort rather than the error it caused in a chunk
+    if (signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+    // A failed write aborts the workers; surface the write error
+    await writing;
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+
+  return type;
+}
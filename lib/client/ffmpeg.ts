@@ -0,0 +1,309 @@
+import { FFmpeg, FFFSType, type LogEvent } from '@ffmpeg/ffmpeg';
+import type { CaptionTrack, TrimRange } from '@/types/video';
+import { buildRemuxArgs, type SubtitleInput } from '@/lib/ffmpegArgs';
+import { ApiError } from '@/lib/errors';
+
+// One FFmpeg instance is shared by every download in the tab. It runs in its own web
+// worker, so commands don't block the page, but it can only run one command at a time,
+// so work is serialised through `runExclusive`. A running command can't be interrupted;
+// cancelling terminates the worker and the next task loads a fresh one.
+//
+// The core is served from our own origin: scripts/copy-ffmpeg-core.mjs copies it from
+// node_modules into public/ffmpeg/ with a manifest of Subresource Integrity hashes, and
+// each file is checked against its hash before FFmpeg gets it. Cross-origin isolated
+// pages (COOP/COEP headers, see next.config.js) get the multi-threaded core.
+
+const MANIFEST_URL = '/ffmpeg/manifest.json';
+
+interface CoreAsset {
+  url: string;
+  integrity: string;
+}
+
+interface CoreBuild {
+  version: string;
+  core: CoreAsset;
+  wasm: CoreAsset;
+  // Only the multi-threaded core has a worker script
+  worker?: CoreAsset;
+}
+
+interface CoreManifest {
+  single: CoreBuild;
+  multi?: CoreBuild;
+}
+
+let loading: Promise<FFmpeg> | null = null;
+let tail: Promise<unknown> = Promise.resolve();
+
+export function isFFmpegLoaded(): boolean {
+  return loading !== null;
+}
+
+// Fetch a core file, letting the browser reject it unless it matches its hash, and
+// return a blob URL of exactly those bytes
+async function verifiedBlobURL({ url, integrity }: CoreAsset, type: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, { integrity });
+  } catch {
+    throw new ApiError('FFMPEG_UNAVAILABLE', `Could not load ${url}, or it failed its integrity check`);
+  }
+  if (!response.ok) {
+    throw new ApiError('FFMPEG_UNAVAILABLE', `Could not load ${url} (HTTP ${response.status})`);
+  }
+  return URL.createObjectURL(new Blob([await response.arrayBuffer()], { type }));
+}
+
+async function loadCore(build: CoreBuild): Promise<FFmpeg> {
+  const [coreURL, wasmURL, workerURL] = await Promise.all([
+    verifiedBlobURL(build.core, 'text/javascript'),
+    verifiedBlobURL(build.wasm, 'application/wasm'),
+    build.worker ? verifiedBlobURL(build.worker, 'text/javascript') : undefined,
+  ]);
+  const ffmpeg = new FFmpeg();
+  await ffmpeg.load({ coreURL, wasmURL, workerURL });
+  return ffmpeg;
+}
+
+// Load FFmpeg once; a failed load is forgotten so the next caller can retry
+export function loadFFmpeg(): Promise<FFmpeg> {
+  if (!loading) {
+    loading = (async () => {
+      const response = await fetch(MANIFEST_URL);
+      if (!response.ok) {
+        throw new ApiError('FFMPEG_UNAVAILABLE', 'The FFmpeg core is missing from this deployment');
+      }
+      const manifest: CoreManifest = await response.json();
+
+      // Threads need SharedArrayBuffer, which only cross-origin isolated pages have
+      if (manifest.multi && self.crossOriginIsolated) {
+        try {
+          return await loadCore(manifest.multi);
+        } catch (error) {
+          console.warn('Multi-threaded FFmpeg failed to load; using the single-threaded core:', error);
+        }
+      }
+      return loadCore(manifest.single);
+    })();
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+// Start loading FFmpeg in the background so it is ready by the time the streams are
+export function preloadFFmpeg() {
+  loadFFmpeg().catch((error) => console.warn('Could not preload FFmpeg:', error));
+}
+
+// Run a task with exclusive use of the shared FFmpeg instance. Aborting `signal` rejects
+// with the abort reason straight away: a task still waiting for its turn is skipped, and
+// FFmpeg is terminated under one that is running.
+export function runExclusive<T>(task: (ffmpeg: FFmpeg) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const result = tail.then(async () => {
+    signal?.throwIfAborted();
+    const loaded = loadFFmpeg();
+    const ffmpeg = await loaded;
+
+    // Terminating also drops the virtual filesystem, so nothing is left to clean up
+    const terminate = () => {
+      if (loading === loaded) {
+        loading = null;
+      }
+      ffmpeg.terminate();
+    };
+    signal?.addEventListener('abort', terminate);
+    try {
+      return await task(ffmpeg);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', terminate);
+    }
+  });
+  tail = result.catch(() => undefined);
+
+  if (!signal) {
+    return result;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    result.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export interface ExecProgress {
+  // Length of the output in seconds; progress is the share of it written so far
+  duration?: number;
+  // `fraction` is 0-1; `time` is the output position in seconds
+  onProgress?: (fraction: number, time: number) => void;
+}
+
+// Position in FFmpeg's status lines, e.g. "size=  1024kB time=00:01:02.50 bitrate=..."
+const TIME_PATTERN = /time=\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+// Log lines kept to explain a failed command
+const LOG_TAIL_LINES = 5;
+
+// Run a command, reporting progress from its status lines. ffmpeg.wasm resolves with the
+// exit code instead of rejecting, so a failure is turned into MERGE_FAILED here.
+export async function execWithProgress(
+  ffmpeg: FFmpeg,
+  args: string[],
+  { duration, onProgress }: ExecProgress = {}
+): Promise<void> {
+  const logTail: string[] = [];
+  const onLog = ({ message }: LogEvent) => {
+    logTail.push(message);
+    if (logTail.length > LOG_TAIL_LINES) {
+      logTail.shift();
+    }
+
+    const match = message.match(TIME_PATTERN);
+    if (match && duration && onProgress) {
+      const time = parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+      onProgress(Math.min(1, time / duration), time);
+    }
+  };
+
+  ffmpeg.on('log', onLog);
+  try {
+    const exitCode = await ffmpeg.exec(args);
+    if (exitCode !== 0) {
+      const reason = logTail.filter((line) => line.trim()).pop() || 'no output';
+      throw new ApiError('MERGE_FAILED', `FFmpeg failed with exit code ${exitCode}: ${reason}`);
+    }
+  } finally {
+    ffmpeg.off('log', onLog);
+  }
+}
+
+// Remove files from the virtual filesystem, skipping ones that were never written
+export async function removeFiles(ffmpeg: FFmpeg, names: string[]) {
+  for (const name of names) {
+    await ffmpeg.deleteFile(name).catch(() => undefined);
+  }
+}
+
+const INPUT_DIRECTORY = '/input';
+
+// Expose input files to FFmpeg without copying them into its memory filesystem. Files
+// backed by disk (scratch files) are read from disk as FFmpeg needs them. Returns the
+// path of each input, in order; call `unmountInputs` when done.
+export async function mountInputs(ffmpeg: FFmpeg, inputs: { name: string; data: Blob }[]): Promise<string[]> {
+  // A job that failed part-way may have left its inputs mounted
+  await unmountInputs(ffmpeg).catch(() => undefined);
+  await ffmpeg.createDir(INPUT_DIRECTORY);
+  await ffmpeg.mount(FFFSType.WORKERFS, { blobs: inputs }, INPUT_DIRECTORY);
+  return inputs.map((input) => `${INPUT_DIRECTORY}/${input.name}`);
+}
+
+export async function unmountInputs(ffmpeg: FFmpeg) {
+  await ffmpeg.unmount(INPUT_DIRECTORY);
+  await ffmpeg.deleteDir(INPUT_DIRECTORY);
+}
+
+// Read a file from the virtual filesystem into a Blob
+export async function readFileAsBlob(ffmpeg: FFmpeg, path: string, type: string): Promise<Blob> {
+  const data = await ffmpeg.readFile(path);
+  // readFile only returns a string when asked for a text encoding; copying the bytes
+  // also detaches the Blob from the WASM heap
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+  return new Blob([bytes], { type });
+}
+
+// How far a keyframe may be from the requested cut and still count as "on" it
+const KEYFRAME_TOLERANCE = 0.05;
+
+// Check whether the first video stream has a keyframe at `time`, so a clip can start
+// there with stream copy. Any probe failure answers false, which means re-encoding.
+export async function isKeyframeAt(ffmpeg: FFmpeg, input: string, time: number): Promise<boolean> {
+  if (time <= 0) {
+    return true;
+  }
+
+  const output = 'keyframes.txt';
+  try {
+    await ffmpeg.ffprobe([
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-skip_frame', 'nokey',
+      '-show_entries', 'frame=pts_time',
+      '-of', 'csv=p=0',
+      '-read_intervals', `${Math.max(0, time - 10).toFixed(3)}%${(time + 1).toFixed(3)}`,
+      input,
+      '-o', output,
+    ]);
+    const data = await ffmpeg.readFile(output, 'utf8');
+    await ffmpeg.deleteFile(output);
+
+    return String(data)
+      .split('\n')
+      .map((line) => parseFloat(line))
+      .some((pts) => Math.abs(pts - time) <= KEYFRAME_TOLERANCE);
+  } catch {
+    return false;
+  }
+}
+
+export interface SubtitleFile {
+  track: CaptionTrack;
+  srt: string;
+}
+
+// Write subtitle files into the virtual filesystem and describe them for the arg builders
+export async function writeSubtitleFiles(ffmpeg: FFmpeg, files: SubtitleFile[]): Promise<SubtitleInput[]> {
+  const inputs: SubtitleInput[] = [];
+  for (const [i, file] of files.entries()) {
+    const input = `subtitle${i}.srt`;
+    await ffmpeg.writeFile(input, file.srt);
+    inputs.push({ input, languageCode: file.track.languageCode, title: file.track.name });
+  }
+  return inputs;
+}
+
+export interface OutputFile {
+  blob: Blob;
+  filename: string;
+}
+
+export interface SplitSegment extends TrimRange {
+  filename: string;
+}
+
+// Read a finished file out of the virtual filesystem, either whole or cut into the
+// given segments (used for one-file-per-chapter downloads)
+export async function readOutputs(
+  ffmpeg: FFmpeg,
+  outputName: string,
+  { type, filename, container, hasVideo, segments = [], onSegment }: {
+    type: string;
+    filename: string;
+    container: string;
+    hasVideo: boolean;
+    segments?: SplitSegment[];
+    // Called before each segment is cut
+    onSegment?: (index: number) => void;
+  }
+): Promise<OutputFile[]> {
+  if (segments.length === 0) {
+    return [{ blob: await readFileAsBlob(ffmpeg, outputName, type), filename }];
+  }
+
+  const files: OutputFile[] = [];
+  for (const [i, segment] of segments.entries()) {
+    onSegment?.(i);
+    const segmentName = `segment${i}.${container}`;
+    try {
+      const reencodeVideo = hasVideo && !(await isKeyframeAt(ffmpeg, outputName, segment.start));
+      await execWithProgress(ffmpeg, buildRemuxArgs({ input: outputName, output: segmentName, trim: segment, reencodeVideo, container }));
+      files.push({ blob: await readFileAsBlob(ffmpeg, segmentName, type), filename: segment.filename });
+    } finally {
+      await removeFiles(ffmpeg, [segmentName]);
+    }
+  }
+  return files;
+}
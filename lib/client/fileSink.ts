@@ -0,0 +1,261 @@
+import type { DownloadDestination } from '@/types/video';
+import type { ByteSink } from '@/lib/client/download';
+import { contentDisposition } from '@/lib/filename';
+
+// Writing downloads to disk as they arrive instead of holding them in memory.
+//
+// - With the File System Access API, the user picks a file (or a folder for several
+//   files) when queueing, and bytes are written straight into it.
+// - Otherwise a service worker (public/download-sw.js) turns the bytes into a streaming
+//   download response, which the browser saves like any other download.
+// - Inputs for FFmpeg go to scratch files in the origin private file system, which
+//   FFmpeg then reads from disk.
+
+export interface FileSink extends ByteSink {
+  close(): Promise<void>;
+  // Discard what was written
+  abort(): Promise<void>;
+}
+
+// Not in TypeScript's DOM library yet
+interface PickerWindow {
+  showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+}
+
+const SERVICE_WORKER_URL = '/download-sw.js';
+const SERVICE_WORKER_PREFIX = '/__download/';
+// The worker may be stopped when idle; messages keep it running during a download
+const KEEP_ALIVE_INTERVAL = 10000;
+const SCRATCH_DIRECTORY = 'scratch';
+
+export function canPickDestination(): boolean {
+  const picker = window as PickerWindow;
+  return typeof picker.showSaveFilePicker === 'function' && typeof picker.showDirectoryPicker === 'function';
+}
+
+function canUseServiceWorker(): boolean {
+  return window.isSecureContext && 'serviceWorker' in navigator;
+}
+
+export function canStreamToDisk(): boolean {
+  return canPickDestination() || canUseServiceWorker();
+}
+
+// Ask where to save; must run while handling a click. Resolves to null when the picker
+// isn't available or the user closes it.
+export async function pickDestination(
+  suggestedName: string,
+  multipleFiles: boolean
+): Promise<DownloadDestination | null> {
+  if (!canPickDestination()) {
+    return null;
+  }
+
+  const picker = window as PickerWindow;
+  try {
+    if (multipleFiles) {
+      return { kind: 'directory', handle: await picker.showDirectoryPicker!({ mode: 'readwrite' }) };
+    }
+    return { kind: 'file', handle: await picker.showSaveFilePicker!({ suggestedName }) };
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function fileHandleSink(writable: FileSystemWritableFileStream): FileSink {
+  return {
+    write: (data) => writable.write(data as Blob | BufferSource),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+}
+
+let workerRegistration: Promise<ServiceWorker> | null = null;
+
+// Register the download worker once and wait until it is active
+function getDownloadWorker(): Promise<ServiceWorker> {
+  if (!workerRegistration) {
+    workerRegistration = (async () => {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+      const worker = registration.active || registration.installing || registration.waiting;
+      if (!worker) {
+        throw new Error('Download service worker did not install');
+      }
+      if (worker.state !== 'activated') {
+        await new Promise<void>((resolve) => {
+          const onStateChange = () => {
+            if (worker.state === 'activated') {
+              worker.removeEventListener('statechange', onStateChange);
+              resolve();
+            }
+          };
+          worker.addEventListener('statechange', onStateChange);
+        });
+      }
+      return worker;
+    })();
+    workerRegistration.catch(() => {
+      workerRegistration = null;
+    });
+  }
+  return workerRegistration;
+}
+
+// Stream bytes to the service worker, which serves them as a file download. Writes wait
+// for the download to ask for more, so only a chunk or two is in memory at a time.
+async function serviceWorkerSink(filename: string, type: string, size?: number): Promise<FileSink> {
+  const worker = await getDownloadWorker();
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  const channel = new MessageChannel();
+  const port = channel.port1;
+
+  let credits = 0;
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+  const ready = new Promise<void>((resolve) => {
+    port.onmessage = ({ data }) => {
+      if (data.type === 'ready') {
+        resolve();
+      } else if (data.type === 'pull') {
+        credits++;
+      } else if (data.type === 'cancel') {
+        // Cancelled from the browser's download list
+        cancelled = true;
+      }
+      wake?.();
+      wake = null;
+    };
+  });
+
+  worker.postMessage(
+    {
+      type: 'download',
+      id,
+      contentType: type || 'application/octet-stream',
+      disposition: contentDisposition(filename),
+      size,
+    },
+    [channel.port2]
+  );
+  await ready;
+
+  const iframe = document.createElement('iframe');
+  iframe.hidden = true;
+  iframe.src = `${SERVICE_WORKER_PREFIX}${id}`;
+  document.body.appendChild(iframe);
+  const keepAlive = setInterval(() => worker.postMessage({ type: 'ping' }), KEEP_ALIVE_INTERVAL);
+
+  const finish = () => {
+    clearInterval(keepAlive);
+    port.close();
+    // Removing the frame right away can cancel a download that hasn't started yet
+    setTimeout(() => iframe.remove(), 30000);
+  };
+
+  const send = async (chunk: Uint8Array) => {
+    while (credits === 0 && !cancelled) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+    if (cancelled) {
+      finish();
+      throw new DOMException('The download was cancelled in the browser', 'AbortError');
+    }
+    credits--;
+    // Transfer rather than copy; views into a larger buffer are copied out first
+    const own = chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength ? chunk : chunk.slice();
+    port.postMessage({ type: 'chunk', chunk: own }, [own.buffer as ArrayBuffer]);
+  };
+
+  return {
+    async write(data) {
+      if (data instanceof Blob) {
+        const reader = data.stream().getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await send(value);
+        }
+      } else {
+        await send(data);
+      }
+    },
+    async close() {
+      port.postMessage({ type: 'close' });
+      finish();
+    },
+    async abort() {
+      port.postMessage({ type: 'abort' });
+      finish();
+    },
+  };
+}
+
+// Open the final file for a download. With no picked destination, falls back to a
+// service worker download; resolves to null when neither is available.
+export async function openFileSink(
+  destination: DownloadDestination | undefined,
+  filename: string,
+  type: string,
+  size?: number
+): Promise<FileSink | null> {
+  if (destination?.kind === 'file') {
+    return fileHandleSink(await destination.handle.createWritable());
+  }
+  if (destination?.kind === 'directory') {
+    const handle = await destination.handle.getFileHandle(filename, { create: true });
+    return fileHandleSink(await handle.createWritable());
+  }
+  if (canUseServiceWorker()) {
+    try {
+      return await serviceWorkerSink(filename, type, size);
+    } catch (error) {
+      console.warn('Streaming downloads through the service worker are unavailable:', error);
+    }
+  }
+  return null;
+}
+
+// Write an in-memory result to a picked destination
+export async function writeToDestination(destination: DownloadDestination, blob: Blob, filename: string) {
+  const sink = await openFileSink(destination, filename, blob.type);
+  try {
+    await sink!.write(blob);
+    await sink!.close();
+  } catch (error) {
+    await sink!.abort();
+    throw error;
+  }
+}
+
+export interface ScratchFile {
+  sink: FileSink;
+  // The finished file, read from disk on demand
+  getFile(): Promise<File>;
+  remove(): Promise<void>;
+}
+
+// Create a temporary file in the origin private file system, or resolve to null when
+// the browser can't write there from the page
+export async function createScratchFile(name: string): Promise<ScratchFile | null> {
+  try {
+    const root = await navigator.storage.getDirectory();
+    const directory = await root.getDirectoryHandle(SCRATCH_DIRECTORY, { create: true });
+    const handle = await directory.getFileHandle(name, { create: true });
+    if (typeof handle.createWritable !== 'function') {
+      return null;
+    }
+    return {
+      sink: fileHandleSink(await handle.createWritable()),
+      getFile: () => handle.getFile(),
+      remove: () => directory.removeEntry(name),
+    };
+  } catch {
+    return null;
+  }
+}
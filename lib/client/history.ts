@@ -0,0 +1,175 @@
+import axios from 'axios';
+import type { AudioOptions, DownloadOptions, HistoryEntry, VideoFormat, VideoInfo } from '@/types/video';
+import type { HistoryResponse, HistorySnapshot } from '@/types/api';
+import { AUDIO_TARGETS } from '@/lib/ffmpegArgs';
+import { audioCandidates, pairFormats } from '@/lib/formats';
+import { ApiError } from '@/lib/errors';
+
+// Download history. Finished downloads are kept in IndexedDB, so they survive reloads,
+// and with a sync code they are also copied to /api/history, where other browsers using
+// the same code pick them up.
+
+const DB_NAME = 'ytdl-history';
+const DB_VERSION = 1;
+const STORE = 'downloads';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call try again, e.g. after the user allows storage
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function newestFirst(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt));
+}
+
+// Every entry, newest first
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  return newestFirst(await withStore('readonly', (store) => store.getAll() as IDBRequest<HistoryEntry[]>));
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// The quality a download was made at, e.g. "1080p60" or "MP3 192k"; also how duplicates
+// are recognised
+export function historyQuality(format: Pick<VideoFormat, 'hasVideo' | 'qualityLabel' | 'quality' | 'height'>, audio?: AudioOptions): string {
+  if (!format.hasVideo && audio) {
+    const target = AUDIO_TARGETS[audio.target];
+    return target.lossless ? target.label : `${target.label} ${audio.bitrate}k`;
+  }
+  return format.qualityLabel || (format.height ? `${format.height}p` : format.quality);
+}
+
+// Rough size of what a download produces: the streams it is made from, scaled to the clip
+function estimateSize(info: VideoInfo, format: VideoFormat, options: DownloadOptions): number | undefined {
+  let size: number;
+  if (!format.hasVideo && !AUDIO_TARGETS[options.audio.target].lossless && info.duration) {
+    // Transcoded audio is as big as its bitrate makes it
+    size = (options.audio.bitrate * 1000 * info.duration) / 8;
+  } else {
+    const streams = format.hasVideo && !format.hasAudio ? [format, pairFormats(audioCandidates(info.formats, options.audioItag), format)?.audio] : [format];
+    size = streams.reduce((total, stream) => total + parseInt(stream?.contentLength || '0', 10), 0);
+  }
+  if (options.trim && info.duration) {
+    size *= (options.trim.end - options.trim.start) / info.duration;
+  }
+  return size > 0 ? Math.round(size) : undefined;
+}
+
+export function createHistoryEntry(
+  info: VideoInfo,
+  format: VideoFormat,
+  options: DownloadOptions,
+  filename: string
+): HistoryEntry {
+  const { url: _url, ...description } = format;
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    videoId: info.videoId,
+    title: info.title,
+    thumbnail: info.thumbnail,
+    format: description,
+    audio: format.hasVideo ? undefined : options.audio,
+    filename,
+    size: estimateSize(info, format, options),
+    downloadedAt: new Date().toISOString(),
+  };
+}
+
+// The latest download of `videoId` at the quality `format` and `audio` would produce
+export function findDuplicate(
+  history: HistoryEntry[],
+  videoId: string,
+  format: VideoFormat,
+  audio: AudioOptions
+): HistoryEntry | undefined {
+  const quality = historyQuality(format, audio);
+  return history.find((entry) => entry.videoId === videoId && historyQuality(entry.format, entry.audio) === quality);
+}
+
+// Entries whose title, filename or video ID contain every word of `query`
+export function searchHistory(history: HistoryEntry[], query: string): HistoryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return history;
+  }
+  return history.filter((entry) => {
+    const text = `${entry.title} ${entry.filename} ${entry.videoId}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+export function createSyncId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function snapshotFrom(response: { data: HistoryResponse }): HistorySnapshot {
+  if (!response.data.success || !response.data.data) {
+    throw new ApiError(response.data.error || 'FETCH_ERROR', response.data.message || 'History sync failed');
+  }
+  return response.data.data;
+}
+
+export async function pushHistoryEntries(syncId: string, entries: HistoryEntry[]): Promise<void> {
+  snapshotFrom(await axios.post<HistoryResponse>('/api/history', { syncId, entries }));
+}
+
+export async function deleteSyncedEntry(syncId: string, id: string): Promise<void> {
+  snapshotFrom(
+    await axios.delete<HistoryResponse>(`/api/history?syncId=${encodeURIComponent(syncId)}&id=${encodeURIComponent(id)}`)
+  );
+}
+
+// Bring the local history and the synced one together: entries deleted elsewhere are
+// removed here, entries only on the server are stored here and entries only here are
+// uploaded. Resolves to the merged history, newest first.
+export async function syncHistory(syncId: string, local: HistoryEntry[]): Promise<HistoryEntry[]> {
+  const remote = snapshotFrom(await axios.get<HistoryResponse>(`/api/history?syncId=${encodeURIComponent(syncId)}`));
+  const deleted = new Set(remote.deleted);
+  const remoteIds = new Set(remote.entries.map((entry) => entry.id));
+  const localIds = new Set(local.map((entry) => entry.id));
+
+  for (const entry of local.filter((entry) => deleted.has(entry.id))) {
+    await deleteHistoryEntry(entry.id);
+  }
+  const added = remote.entries.filter((entry) => !localIds.has(entry.id));
+  for (const entry of added) {
+    await saveHistoryEntry(entry);
+  }
+
+  const kept = local.filter((entry) => !deleted.has(entry.id));
+  const upload = kept.filter((entry) => !remoteIds.has(entry.id));
+  if (upload.length > 0) {
+    await pushHistoryEntries(syncId, upload);
+  }
+  return newestFirst([...kept, ...added]);
+}
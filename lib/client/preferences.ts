@@ -0,0 +1,51 @@
+import { DEFAULT_FILENAME_TEMPLATE } from '@/lib/filename';
+import { DEFAULT_PRESET_ID, type QualityPreset } from '@/lib/presets';
+
+// User preferences persisted in localStorage. Missing or unreadable values fall back to
+// the defaults, so older saved preferences keep working as fields are added.
+
+export interface Preferences {
+  filenameTemplate: string;
+  // Only honoured where the browser can stream to disk; see lib/client/fileSink.ts
+  streamToDisk: boolean;
+  autoRetry: boolean;
+  // Show every stream in a table instead of the simple quality list
+  advancedFormats: boolean;
+  // Presets the user saved, after the built-in ones
+  qualityPresets: QualityPreset[];
+  // Preset applied to every fetched video; see lib/presets.ts
+  defaultPresetId: string;
+  // Code the download history is synced under; see lib/client/history.ts
+  historySyncId: string | null;
+}
+
+const STORAGE_KEY = 'ytdl-preferences';
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  streamToDisk: true,
+  autoRetry: true,
+  advancedFormats: false,
+  qualityPresets: [],
+  defaultPresetId: DEFAULT_PRESET_ID,
+  historySyncId: null,
+};
+
+export function loadPreferences(): Preferences {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function savePreferences(changes: Partial<Preferences>): Preferences {
+  const preferences = { ...loadPreferences(), ...changes };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage can be full or disabled (e.g. private browsing); the choice just isn't kept
+  }
+  return preferences;
+}
@@ -0,0 +1,22 @@
+import type { RecoveryStep } from '@/types/video';
+
+// Automatic recovery for failed downloads. Signed URLs expire or get revoked, so a
+// retryable failure is first retried with fresh links and exponential backoff. If that
+// keeps failing, the job falls back to the next-best format of the same kind (see
+// findFallbackFormat), and last fetches that format through the server proxy.
+
+export const RECOVERY_STEPS: RecoveryStep[] = ['retry', 'retry', 'fallback', 'proxy'];
+
+export const RECOVERY_STEP_LABELS: Record<RecoveryStep, string> = {
+  retry: 'Retrying with fresh links',
+  fallback: 'Trying another format',
+  proxy: 'Trying the server proxy',
+};
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 15000;
+
+// Wait before recovery step `index` (0-based): 1s, 2s, 4s, ...
+export function backoffDelay(index: number): number {
+  return Math.min(BASE_DELAY * 2 ** index, MAX_DELAY);
+}
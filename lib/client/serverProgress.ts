@@ -0,0 +1,95 @@
+import type { DownloadProgress } from '@/types/video';
+import type { ProgressEnd } from '@/types/api';
+import { ApiError } from '@/lib/errors';
+
+// Following a request's progress on the server through /api/progress (Server-Sent
+// Events). Subscribe to a fresh id, then pass it as `progressId` to /api/download or
+// /api/merge; see lib/server/progress.ts. When the events are served by a different
+// instance than the request (serverless deployments without a shared progress store),
+// none arrive; the watch then gives up quickly so callers can show their own progress.
+
+// Give up on a server that has gone quiet for this long
+const DEFAULT_IDLE_TIMEOUT = 60 * 1000;
+// Give up sooner when not even the first event arrives
+const DEFAULT_FIRST_EVENT_TIMEOUT = 15 * 1000;
+
+export function createProgressId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export interface ServerProgressWatch {
+  // True once the server reports the request finished; false if the events stopped or
+  // were closed first. Rejects with the request's error, or when `signal` aborts.
+  finished: Promise<boolean>;
+  close(): void;
+}
+
+export function watchServerProgress(
+  id: string,
+  onProgress: (progress: DownloadProgress) => void,
+  {
+    signal,
+    idleTimeout = DEFAULT_IDLE_TIMEOUT,
+    firstEventTimeout = DEFAULT_FIRST_EVENT_TIMEOUT,
+  }: { signal?: AbortSignal; idleTimeout?: number; firstEventTimeout?: number } = {}
+): ServerProgressWatch {
+  const source = new EventSource(`/api/progress?id=${encodeURIComponent(id)}`);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let settle: (ended: boolean) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  const finished = new Promise<boolean>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  });
+  // Callers that only want the events never look at the outcome
+  finished.catch(() => undefined);
+
+  const stop = () => {
+    source.close();
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const onAbort = () => {
+    stop();
+    fail(new DOMException('Aborted', 'AbortError'));
+  };
+  const waitForEvents = (timeout = idleTimeout) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      stop();
+      settle(false);
+    }, timeout);
+  };
+
+  source.addEventListener('progress', (event) => {
+    waitForEvents();
+    onProgress(JSON.parse((event as MessageEvent).data));
+  });
+  source.addEventListener('end', (event) => {
+    stop();
+    const { error }: ProgressEnd = JSON.parse((event as MessageEvent).data);
+    if (error) {
+      fail(new ApiError(error.code, error.message));
+    } else {
+      settle(true);
+    }
+  });
+  // EventSource reconnects by itself unless the server refused the connection
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      stop();
+      settle(false);
+    }
+  };
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+  waitForEvents(firstEventTimeout);
+
+  return {
+    finished,
+    close: () => {
+      stop();
+      settle(false);
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import type { ApiErrorCode, ApiErrorResponse } from '@/types/api';
+import type { VideoFormat } from '@/types/video';
+
+// Every failure the API or the downloader can report, keyed by its stable code. Routes
+// throw ApiError and serialise it; the UI picks its tips from the code, and logs carry
+// the code so failures can be grouped.
+
+interface ErrorDefinition {
+  // HTTP status the API answers with
+  status: number;
+  // Whether the same request may succeed if tried again later
+  retryable: boolean;
+  // What the user can do about it
+  tip?: string;
+  // Replaces `tip` for formats that have to be merged with an audio stream
+  mergeTip?: string;
+}
+
+const COMBINED_FORMAT_HINT = 'Combined formats (video+audio) download directly from YouTube and are usually more reliable.';
+
+export const ERROR_DEFINITIONS: Record<ApiErrorCode, ErrorDefinition> = {
+  MISSING_URL: { status: 400, retryable: false },
+  MISSING_PARAMS: { status: 400, retryable: false },
+  INVALID_URL: { status: 400, retryable: false, tip: 'Check the link; it should be a YouTube video, playlist or channel URL.' },
+  INVALID_VIDEO_ID: { status: 400, retryable: false },
+  INVALID_FORMAT: { status: 400, retryable: false },
+  INVALID_CONTAINER: { status: 400, retryable: false },
+  INVALID_RANGE: { status: 400, retryable: false },
+  INVALID_BODY: { status: 400, retryable: false },
+  PLAYLIST_URL: { status: 400, retryable: false },
+  RANGE_NOT_SATISFIABLE: { status: 416, retryable: false },
+  WEBP_NOT_SUPPORTED: { status: 400, retryable: false, tip: 'Please select an MP4 format.' },
+  UNAUTHORIZED: { status: 401, retryable: false },
+  ORIGIN_NOT_ALLOWED: { status: 403, retryable: false },
+  RATE_LIMITED: { status: 429, retryable: true, tip: 'Too many requests for now. Wait a moment before trying again.' },
+  ADMIN_DISABLED: { status: 404, retryable: false },
+  KEY_NOT_FOUND: { status: 404, retryable: false },
+  SIGNATURE_ERROR: {
+    status: 500,
+    retryable: true,
+    tip: `YouTube has updated their security and the ytdl-core library may need an update. ${COMBINED_FORMAT_HINT}`,
+  },
+  ACCESS_DENIED: {
+    status: 403,
+    retryable: true,
+    tip: 'YouTube may be blocking this request. Try selecting a different format or wait a few minutes.',
+    mergeTip: `YouTube is blocking server-side downloads for formats requiring merging. ${COMBINED_FORMAT_HINT}`,
+  },
+  VIDEO_UNAVAILABLE: { status: 403, retryable: false },
+  VIDEO_NOT_FOUND: { status: 404, retryable: false, tip: 'Check the URL and try again.' },
+  AGE_RESTRICTED: { status: 403, retryable: false },
+  FORMAT_NOT_FOUND: { status: 404, retryable: false, tip: `This format is not available. Please select a different format. ${COMBINED_FORMAT_HINT}` },
+  NO_URL: { status: 404, retryable: true, tip: `This format is not available. Please select a different format. ${COMBINED_FORMAT_HINT}` },
+  NO_AUDIO: { status: 404, retryable: false, tip: `No audio stream could be found to merge with. ${COMBINED_FORMAT_HINT}` },
+  CAPTIONS_NOT_FOUND: { status: 404, retryable: false },
+  THUMBNAIL_NOT_FOUND: { status: 404, retryable: false },
+  PLAYLIST_NOT_FOUND: { status: 404, retryable: false },
+  CHANNEL_NOT_FOUND: { status: 404, retryable: false },
+  PLAYLIST_EMPTY: { status: 404, retryable: false },
+  FETCH_ERROR: { status: 500, retryable: true, tip: 'Check your connection and try again.' },
+  DOWNLOAD_FAILED: { status: 500, retryable: true },
+  FFMPEG_UNAVAILABLE: { status: 501, retryable: false },
+  MERGE_FAILED: { status: 500, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: true },
+  JOB_NOT_FOUND: { status: 404, retryable: false, tip: 'Finished jobs are removed after a while; start the download again.' },
+  JOB_NOT_READY: { status: 409, retryable: true },
+  QUEUE_FULL: { status: 503, retryable: true, tip: 'The server is busy with other downloads. Try again in a few minutes.' },
+  SYNC_DISABLED: { status: 404, retryable: false, tip: 'Your history is still kept in this browser.' },
+};
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    // Extra response headers, e.g. Retry-After
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get status(): number {
+    return ERROR_DEFINITIONS[this.code].status;
+  }
+
+  get retryable(): boolean {
+    return ERROR_DEFINITIONS[this.code].retryable;
+  }
+
+  toJSON(): ApiErrorResponse {
+    return { success: false, error: this.code, message: this.message };
+  }
+}
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && Object.hasOwn(ERROR_DEFINITIONS, value);
+}
+
+// Code for an HTTP error that came without one, e.g. straight from YouTube
+export function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401 || status === 403) return 'ACCESS_DENIED';
+  if (status === 404) return 'FORMAT_NOT_FOUND';
+  if (status === 416) return 'RANGE_NOT_SATISFIABLE';
+  if (status === 429) return 'RATE_LIMITED';
+  return 'FETCH_ERROR';
+}
+
+// Normalise anything a download step can throw: ApiErrors pass through, errors that carry
+// a code (and API error bodies from axios) keep it, and everything else keeps its message
+export function toApiError(error: any, fallback: ApiErrorCode = 'DOWNLOAD_FAILED'): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (isApiErrorCode(error?.code)) {
+    return new ApiError(error.code, error.message);
+  }
+  const body = error?.response?.data;
+  if (body && isApiErrorCode(body.error)) {
+    return new ApiError(body.error, body.message || error.message);
+  }
+  if (error?.response?.status) {
+    return new ApiError(codeForStatus(error.response.status), error.message);
+  }
+  return new ApiError(fallback, error?.message || 'Something went wrong');
+}
+
+// What to suggest to the user for an error while downloading `format`
+export function tipFor(code: ApiErrorCode, format?: VideoFormat | null): string | undefined {
+  const definition = ERROR_DEFINITIONS[code];
+  return format && format.hasVideo && !format.hasAudio ? definition.mergeTip || definition.tip : definition.tip;
+}
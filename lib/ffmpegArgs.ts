@@ -0,0 +1,341 @@
+import type { AudioTarget, TrimRange, VideoInfo } from '@/types/video';
+
+// FFmpeg argument builders shared by the in-browser merge (ffmpeg.wasm) and the
+// server-side merge route (native ffmpeg), so both produce the same files.
+
+export type MergeContainer = 'mp4' | 'webm' | 'mkv';
+
+// Codec families (the codec string up to the first dot) each container holds without
+// re-encoding; an empty list means any codec. MP4 players expect AAC audio, WebM only
+// allows VP8/VP9/AV1 with Opus or Vorbis, and Matroska takes anything.
+const CONTAINER_CODECS: Record<MergeContainer, { video: string[]; audio: string[] }> = {
+  mp4: { video: ['avc1', 'av01', 'vp09'], audio: ['mp4a'] },
+  webm: { video: ['vp8', 'vp9', 'vp09', 'av01'], audio: ['opus', 'vorbis'] },
+  mkv: { video: [], audio: [] },
+};
+
+function fitsCodecs(allowed: string[], codec?: string): boolean {
+  return allowed.length === 0 || allowed.includes((codec || '').split('.')[0]);
+}
+
+// Whether a video stream can be copied into `container` as-is
+export function containerHoldsVideo(container: MergeContainer, videoCodec?: string): boolean {
+  return fitsCodecs(CONTAINER_CODECS[container].video, videoCodec);
+}
+
+// Whether an audio stream can be copied into `container` as-is
+export function containerHoldsAudio(container: MergeContainer, audioCodec?: string): boolean {
+  return fitsCodecs(CONTAINER_CODECS[container].audio, audioCodec);
+}
+
+// A subtitle file to embed as a soft (selectable) track
+export interface SubtitleInput {
+  input: string;
+  languageCode: string;
+  title: string;
+}
+
+// Tags written into the output file so media libraries can import it untouched
+export interface MediaTags {
+  title: string;
+  artist: string;
+  // YYYY-MM-DD
+  date?: string;
+  description?: string;
+  sourceUrl: string;
+}
+
+export function buildMediaTags(
+  video: Pick<VideoInfo, 'videoId' | 'title' | 'author' | 'uploadDate' | 'description'>
+): MediaTags {
+  return {
+    title: video.title,
+    artist: video.author,
+    date: video.uploadDate || undefined,
+    description: video.description || undefined,
+    sourceUrl: `https://www.youtube.com/watch?v=${video.videoId}`,
+  };
+}
+
+export interface MergeArgsOptions {
+  videoInput: string;
+  audioInput: string;
+  output: string;
+  container?: MergeContainer;
+  trim?: TrimRange;
+  // Stream copy can only cut on a keyframe; otherwise the video has to be re-encoded
+  reencodeVideo?: boolean;
+  subtitles?: SubtitleInput[];
+  // FFMETADATA file with chapter markers
+  chaptersInput?: string;
+  tags?: MediaTags;
+  // Image embedded as cover art
+  coverInput?: string;
+  // Whether the audio already suits the container; otherwise it is re-encoded to AAC
+  // (MP4) or Opus (WebM)
+  copyAudio?: boolean;
+  // Writing to a pipe needs a fragmented MP4, since the moov atom can't be rewritten afterwards
+  streaming?: boolean;
+}
+
+// Input options that seek to the clip start and stop reading at its end
+function seekArgs(trim?: TrimRange): string[] {
+  if (!trim) {
+    return [];
+  }
+  return ['-ss', trim.start.toFixed(3), '-t', (trim.end - trim.start).toFixed(3)];
+}
+
+// Inputs, mappings and codec for soft subtitle tracks; `firstInput` is the index of the
+// first subtitle file among the ffmpeg inputs
+function subtitleArgs(subtitles: SubtitleInput[], firstInput: number, container: string, trim?: TrimRange) {
+  const inputs: string[] = [];
+  const outputs: string[] = [];
+
+  subtitles.forEach((subtitle, i) => {
+    inputs.push(...seekArgs(trim), '-i', subtitle.input);
+    outputs.push(
+      '-map', `${firstInput + i}:0`,
+      `-metadata:s:s:${i}`, `language=${subtitle.languageCode}`,
+      `-metadata:s:s:${i}`, `title=${subtitle.title}`
+    );
+  });
+
+  if (subtitles.length > 0) {
+    // MP4 only supports timed text; Matroska and WebM carry SRT/WebVTT directly
+    outputs.push('-c:s', container === 'mp4' ? 'mov_text' : container === 'webm' ? 'webvtt' : 'srt');
+  }
+
+  return { inputs, outputs };
+}
+
+// Input and mapping for an FFMETADATA chapters file at input index `index`
+function chapterArgs(chaptersInput: string | undefined, index: number) {
+  if (!chaptersInput) {
+    return { inputs: [], outputs: [] };
+  }
+  return { inputs: ['-i', chaptersInput], outputs: ['-map_chapters', String(index)] };
+}
+
+// Global metadata options for the given tags
+function metadataArgs(tags?: MediaTags): string[] {
+  if (!tags) {
+    return [];
+  }
+  const values: Record<string, string | undefined> = {
+    title: tags.title,
+    artist: tags.artist,
+    date: tags.date,
+    description: tags.description,
+    // Players show the comment tag far more often than any dedicated URL tag
+    comment: tags.sourceUrl,
+  };
+  return Object.entries(values)
+    .filter(([, value]) => value)
+    .flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+}
+
+// Input, mapping and codec for a cover image at input index `index`, written as output
+// video stream `stream`. Must come after the general `-c:v` so the override applies.
+function coverArgs(coverInput: string | undefined, index: number, stream: number, container: string) {
+  // WebM has no attached pictures
+  if (!coverInput || container === 'webm') {
+    return { inputs: [], outputs: [] };
+  }
+  const outputs = ['-map', `${index}:v:0`, `-c:v:${stream}`, 'mjpeg', `-disposition:v:${stream}`, 'attached_pic'];
+  if (container === 'mp3') {
+    // Most players only read ID3v2.3 pictures
+    outputs.push(
+      '-id3v2_version', '3',
+      `-metadata:s:v:${stream}`, 'title=Album cover',
+      `-metadata:s:v:${stream}`, 'comment=Cover (front)'
+    );
+  }
+  return { inputs: ['-i', coverInput], outputs };
+}
+
+// Video re-encoded for a clip has to fit the container too; VP9 is encoded in realtime
+// mode, since the best-quality modes are far too slow for a browser
+function reencodeVideoArgs(container: string): string[] {
+  if (container === 'webm') {
+    return ['-c:v', 'libvpx-vp9', '-deadline', 'realtime', '-cpu-used', '8', '-row-mt', '1', '-crf', '32', '-b:v', '0'];
+  }
+  return ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20'];
+}
+
+// Audio codec used when audio has to be re-encoded for the container
+function reencodeAudioArgs(container: string): string[] {
+  return container === 'webm' ? ['-c:a', 'libopus'] : ['-c:a', 'aac', '-strict', 'experimental'];
+}
+
+export const CONTAINER_MIME_TYPES: Record<MergeContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+};
+
+// ffmpeg's muxer name for each container, needed when writing to a pipe
+const CONTAINER_MUXERS: Record<MergeContainer, string> = {
+  mp4: 'mp4',
+  webm: 'webm',
+  mkv: 'matroska',
+};
+
+// Mux a video-only stream with an audio stream, copying both untouched unless a clip has
+// to be re-encoded or the audio doesn't suit the container
+export function buildMergeArgs({
+  videoInput,
+  audioInput,
+  output,
+  container = 'mp4',
+  trim,
+  reencodeVideo = false,
+  subtitles = [],
+  chaptersInput,
+  tags,
+  coverInput,
+  copyAudio = container === 'mkv',
+  streaming = false,
+}: MergeArgsOptions): string[] {
+  const subs = subtitleArgs(subtitles, 2, container, trim);
+  const chapters = chapterArgs(chaptersInput, 2 + subtitles.length);
+  // A fragmented MP4 writes its moov atom, where cover art lives, before any packet arrives
+  const cover = coverArgs(streaming ? undefined : coverInput, 2 + subtitles.length + (chaptersInput ? 1 : 0), 1, container);
+  const args = [
+    ...seekArgs(trim), '-i', videoInput,
+    ...seekArgs(trim), '-i', audioInput,
+    ...subs.inputs,
+    ...chapters.inputs,
+    ...cover.inputs,
+    '-map', '0:v:0',
+    '-map', '1:a:0',
+    ...subs.outputs,
+    ...chapters.outputs,
+    ...metadataArgs(tags),
+    ...(reencodeVideo ? reencodeVideoArgs(container) : ['-c:v', 'copy']),
+    ...cover.outputs,
+    ...(copyAudio ? ['-c:a', 'copy'] : reencodeAudioArgs(container)),
+    '-shortest',
+  ];
+
+  if (streaming) {
+    if (container === 'mp4') {
+      args.push('-movflags', 'frag_keyframe+empty_moov');
+    }
+    args.push('-f', CONTAINER_MUXERS[container]);
+  }
+
+  args.push(output);
+  return args;
+}
+
+export interface AudioTargetInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  codec: string;
+  // Lossless targets ignore the bitrate setting
+  lossless: boolean;
+  // Whether the container can hold an embedded cover image
+  coverArt: boolean;
+}
+
+export const AUDIO_TARGETS: Record<AudioTarget, AudioTargetInfo> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', codec: 'libmp3lame', lossless: false, coverArt: true },
+  m4a: { label: 'M4A (AAC)', extension: 'm4a', mimeType: 'audio/mp4', codec: 'aac', lossless: false, coverArt: true },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg', codec: 'libopus', lossless: false, coverArt: false },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', codec: 'flac', lossless: true, coverArt: true },
+};
+
+export const AUDIO_BITRATES = [96, 128, 160, 192, 256, 320];
+
+export interface AudioArgsOptions {
+  input: string;
+  output: string;
+  target: AudioTarget;
+  // Kilobits per second
+  bitrate: number;
+  trim?: TrimRange;
+  chaptersInput?: string;
+  tags?: MediaTags;
+  coverInput?: string;
+}
+
+// Transcode an audio stream into the requested target format
+export function buildAudioArgs({
+  input,
+  output,
+  target,
+  bitrate,
+  trim,
+  chaptersInput,
+  tags,
+  coverInput,
+}: AudioArgsOptions): string[] {
+  const { codec, lossless, coverArt, extension } = AUDIO_TARGETS[target];
+  const chapters = chapterArgs(chaptersInput, 1);
+  const cover = coverArgs(coverArt ? coverInput : undefined, chaptersInput ? 2 : 1, 0, extension);
+  const args = [
+    ...seekArgs(trim), '-i', input,
+    ...chapters.inputs,
+    ...cover.inputs,
+    '-map', '0:a:0',
+    ...chapters.outputs,
+    ...metadataArgs(tags),
+    ...(cover.outputs.length > 0 ? cover.outputs : ['-vn']),
+    '-c:a', codec,
+  ];
+
+  if (!lossless) {
+    args.push('-b:a', `${bitrate}k`);
+  }
+  if (target === 'm4a') {
+    args.push('-movflags', '+faststart');
+  }
+
+  args.push(output);
+  return args;
+}
+
+export interface RemuxArgsOptions {
+  input: string;
+  output: string;
+  trim?: TrimRange;
+  reencodeVideo?: boolean;
+  container?: string;
+  subtitles?: SubtitleInput[];
+  chaptersInput?: string;
+  tags?: MediaTags;
+  coverInput?: string;
+}
+
+// Rewrite a file that already has both video and audio, optionally cutting a clip and
+// adding subtitle tracks or chapters. Also used to cut finished files into chapters.
+export function buildRemuxArgs({
+  input,
+  output,
+  trim,
+  reencodeVideo = false,
+  container = 'mp4',
+  subtitles = [],
+  chaptersInput,
+  tags,
+  coverInput,
+}: RemuxArgsOptions): string[] {
+  const subs = subtitleArgs(subtitles, 1, container, trim);
+  const chapters = chapterArgs(chaptersInput, 1 + subtitles.length);
+  const cover = coverArgs(coverInput, 1 + subtitles.length + (chaptersInput ? 1 : 0), 1, container);
+  return [
+    ...seekArgs(trim), '-i', input,
+    ...subs.inputs,
+    ...chapters.inputs,
+    ...cover.inputs,
+    ...(subtitles.length > 0 || chaptersInput || coverInput ? ['-map', '0:v:0', '-map', '0:a?'] : []),
+    ...subs.outputs,
+    ...chapters.outputs,
+    ...metadataArgs(tags),
+    ...(reencodeVideo ? [...reencodeVideoArgs(container), ...reencodeAudioArgs(container)] : ['-c:v', 'copy', '-c:a', 'copy']),
+    ...cover.outputs,
+    output,
+  ];
+}
@@ -0,0 +1,120 @@
+import type { AudioOptions, VideoFormat, VideoInfo } from '@/types/video';
+import { AUDIO_TARGETS } from '@/lib/ffmpegArgs';
+import { pairFormats } from '@/lib/formats';
+
+// Filename templates. Placeholders in braces are filled from the video and the chosen
+// format, then the result is cleaned up so it is valid on Windows, macOS and Linux.
+
+export interface FilenameFields {
+  title: string;
+  author: string;
+  videoId: string;
+  quality: string;
+  // YYYY-MM-DD, empty when unknown
+  date: string;
+  // Position in the playlist; empty for single videos
+  index?: number;
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = '{title}';
+
+export const FILENAME_PLACEHOLDERS: { name: keyof FilenameFields; description: string }[] = [
+  { name: 'title', description: 'Video title' },
+  { name: 'author', description: 'Channel name' },
+  { name: 'videoId', description: 'YouTube video ID' },
+  { name: 'quality', description: 'Resolution or audio bitrate' },
+  { name: 'date', description: 'Upload date (YYYY-MM-DD)' },
+  { name: 'index', description: 'Position in the playlist' },
+];
+
+// Reserved device names on Windows, with or without an extension
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+// Leaves room for an extension and chapter suffix under the usual 255-byte limit
+const MAX_FILENAME_BYTES = 180;
+
+// Make a string safe to use as (part of) a filename. Letters in any script are kept;
+// only characters the file systems reject or that render invisibly are replaced.
+export function sanitizeFilename(name: string): string {
+  let cleaned = name
+    .normalize('NFC')
+    // Path separators and characters Windows forbids (':' is also special on macOS)
+    .replace(/[<>:"/\\|?*]/g, '_')
+    // Control characters and invisible formatting such as bidi overrides
+    .replace(/[\p{Cc}\p{Cf}]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Leading dots hide the file on Unix; trailing dots and spaces are dropped by Windows
+    .replace(/^\.+/, '')
+    .replace(/[. ]+$/, '');
+
+  if (WINDOWS_RESERVED_NAMES.test(cleaned)) {
+    cleaned = `_${cleaned}`;
+  }
+
+  // Trim by whole code points so multi-byte characters are never split
+  const encoder = new TextEncoder();
+  if (encoder.encode(cleaned).length > MAX_FILENAME_BYTES) {
+    const chars = Array.from(cleaned);
+    while (encoder.encode(chars.join('')).length > MAX_FILENAME_BYTES) {
+      chars.pop();
+    }
+    cleaned = chars.join('').replace(/[. ]+$/, '');
+  }
+
+  return cleaned;
+}
+
+// Fill in a template; unknown placeholders are left as typed so mistakes show in the preview
+export function renderFilename(template: string, fields: FilenameFields): string {
+  const values: Record<string, string> = {
+    title: fields.title,
+    author: fields.author,
+    videoId: fields.videoId,
+    quality: fields.quality,
+    date: fields.date,
+    index: fields.index != null ? String(fields.index).padStart(2, '0') : '',
+  };
+
+  const rendered = template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+  return sanitizeFilename(rendered) || sanitizeFilename(fields.title) || fields.videoId;
+}
+
+// Template fields for a download of `info` in `format`
+export function filenameFieldsFor(
+  info: Pick<VideoInfo, 'videoId' | 'title' | 'author' | 'uploadDate'>,
+  format: VideoFormat,
+  audio: AudioOptions,
+  index?: number
+): FilenameFields {
+  let quality = format.qualityLabel || format.quality;
+  if (format.hasAudio && !format.hasVideo) {
+    quality = AUDIO_TARGETS[audio.target].lossless ? 'lossless' : `${audio.bitrate}k`;
+  }
+  return {
+    title: info.title,
+    author: info.author,
+    videoId: info.videoId,
+    quality,
+    date: info.uploadDate || '',
+    index,
+  };
+}
+
+// Extension of the file a download produces: merged streams get the container their
+// codecs are paired into (see pairFormats), chosen from the video's `formats`, and
+// audio-only downloads are transcoded to the chosen target
+export function outputExtension(format: VideoFormat, audio: AudioOptions, formats: VideoFormat[]): string {
+  if (!format.hasVideo) {
+    return AUDIO_TARGETS[audio.target].extension;
+  }
+  return format.hasAudio ? format.container : pairFormats(formats, format)?.container || 'mp4';
+}
+
+// Content-Disposition value for a filename that may contain non-ASCII characters
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,197 @@
+import type { TrimRange, VideoFormat } from '@/types/video';
+import { containerHoldsAudio, containerHoldsVideo, type MergeContainer } from '@/lib/ffmpegArgs';
+
+// Format duration from seconds to HH:MM:SS or MM:SS
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Parse a timestamp typed as seconds, MM:SS or HH:MM:SS (fractions allowed)
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(':');
+  if (parts.length === 0 || parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+// Check a clip against the video duration; returns an error message, or null when valid
+export function validateTrimRange(trim: TrimRange, duration: number): string | null {
+  if (trim.start < 0) {
+    return 'Start time cannot be negative';
+  }
+  if (trim.end <= trim.start) {
+    return 'End time must be after the start time';
+  }
+  if (duration > 0 && trim.end > duration) {
+    return `End time is past the end of the video (${formatDuration(duration)})`;
+  }
+  return null;
+}
+
+// Codec family without the profile, e.g. `avc1` for `avc1.640028`
+export function codecFamily(codec?: string): string {
+  return (codec || '').split('.')[0];
+}
+
+// Pick the best audio-only format by bitrate
+export function findBestAudio(formats: VideoFormat[]): VideoFormat | null {
+  const audioFormats = formats
+    .filter((f) => f.hasAudio && !f.hasVideo)
+    .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0));
+  return audioFormats[0] || null;
+}
+
+// A video-only format's audio partner and the container the two are merged into
+export interface FormatPairing {
+  audio: VideoFormat;
+  container: MergeContainer;
+  // Whether the audio goes in untouched; false only when a container was forced on it
+  copyAudio: boolean;
+}
+
+// Human-readable codec names, by codec family
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  vp09: 'VP9',
+  av01: 'AV1',
+  mp4a: 'AAC',
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+};
+
+export function codecName(codec?: string): string {
+  const family = codecFamily(codec);
+  return CODEC_NAMES[family] || family.toUpperCase() || '?';
+}
+
+// The container a video stream comes from natively: H.264 lives in MP4 and VP9 in WebM;
+// AV1 is served in both, so its own container decides
+function nativeContainer(video: VideoFormat): MergeContainer {
+  const container = video.container === 'webm' ? 'webm' : 'mp4';
+  return containerHoldsVideo(container, video.videoCodec) ? container : 'mkv';
+}
+
+// Pick the audio to merge with a video-only format: the best audio that both streams'
+// container can hold, so everything is stream-copied (AAC for H.264 in MP4, Opus for VP9
+// in WebM). When no audio fits, the best audio goes into Matroska, which takes any mix.
+// A `container` asked for explicitly is kept, re-encoding the audio if it has to.
+export function pairFormats(formats: VideoFormat[], video: VideoFormat, container?: MergeContainer): FormatPairing | null {
+  const audioFormats = formats
+    .filter((f) => f.hasAudio && !f.hasVideo)
+    .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0));
+  if (audioFormats.length === 0) {
+    return null;
+  }
+
+  const target = container || nativeContainer(video);
+  const fitting = audioFormats.find((f) => containerHoldsAudio(target, f.audioCodec));
+  if (fitting) {
+    return { audio: fitting, container: target, copyAudio: true };
+  }
+  if (container) {
+    return { audio: audioFormats[0], container, copyAudio: false };
+  }
+  return { audio: audioFormats[0], container: 'mkv', copyAudio: true };
+}
+
+// Audio streams a video-only format may be merged with: the one picked in the format
+// table when this video has it (playlist entries and retries may not), otherwise all
+export function audioCandidates(formats: VideoFormat[], audioItag?: number): VideoFormat[] {
+  const picked = formats.filter((f) => f.itag === audioItag && f.hasAudio && !f.hasVideo);
+  return picked.length > 0 ? picked : formats;
+}
+
+// Size of a stream in bytes: exact from its content length, otherwise estimated from its
+// bitrate and the video's duration
+export function formatSize(format: VideoFormat, duration: number): { bytes: number; estimated: boolean } | null {
+  const length = parseInt(format.contentLength || '0', 10);
+  if (length > 0) {
+    return { bytes: length, estimated: false };
+  }
+  if (format.bitrate && duration > 0) {
+    return { bytes: Math.round((format.bitrate * duration) / 8), estimated: true };
+  }
+  return null;
+}
+
+// What a pairing produces, e.g. "VP9 + Opus → WEBM"
+export function describePairing(video: VideoFormat, pairing: FormatPairing): string {
+  const audio = pairing.copyAudio ? codecName(pairing.audio.audioCodec) : pairing.container === 'webm' ? 'Opus' : 'AAC';
+  return `${codecName(video.videoCodec)} + ${audio} → ${pairing.container.toUpperCase()}`;
+}
+
+// Find the format in another video's list that best matches a format chosen for a
+// reference video. Used to apply one quality choice to every item of a playlist.
+export function matchFormat(formats: VideoFormat[], reference: VideoFormat): VideoFormat | null {
+  if (reference.hasAudio && !reference.hasVideo) {
+    return findBestAudio(formats);
+  }
+
+  const candidates = formats
+    .filter((f) => f.hasVideo && f.hasAudio === reference.hasAudio)
+    .sort((a, b) => {
+      const aHeight = a.height || 0;
+      const bHeight = b.height || 0;
+      if (aHeight !== bHeight) return bHeight - aHeight;
+      return (b.bitrate || 0) - (a.bitrate || 0);
+    });
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const targetHeight = reference.height || 0;
+  const sameHeight = candidates.filter((f) => (f.height || 0) === targetHeight);
+  if (sameHeight.length > 0) {
+    return sameHeight.find((f) => f.container === reference.container) || sameHeight[0];
+  }
+
+  // Fall back to the closest lower resolution, then to whatever is largest
+  return candidates.find((f) => (f.height || 0) < targetHeight) || candidates[0];
+}
+
+// The next-best format to try after `failed` did not download: same kind of stream,
+// nearest height (not above the failed one when possible), then same codec and container.
+// Formats in `exclude` (by itag) have already been tried.
+export function findFallbackFormat(formats: VideoFormat[], failed: VideoFormat, exclude: number[] = []): VideoFormat | null {
+  const candidates = formats.filter(
+    (f) =>
+      f.itag !== failed.itag &&
+      !exclude.includes(f.itag) &&
+      f.hasVideo === failed.hasVideo &&
+      f.hasAudio === failed.hasAudio
+  );
+
+  if (!failed.hasVideo) {
+    return candidates.sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0))[0] || null;
+  }
+
+  const targetHeight = failed.height || 0;
+  const score = (f: VideoFormat) => {
+    const height = f.height || 0;
+    // Going up in resolution is a worse substitute than going down
+    const heightPenalty = height > targetHeight ? (height - targetHeight) * 2 : targetHeight - height;
+    const codecPenalty = codecFamily(f.videoCodec) === codecFamily(failed.videoCodec) ? 0 : 1;
+    const containerPenalty = f.container === failed.container ? 0 : 1;
+    return [heightPenalty, codecPenalty, containerPenalty, -(f.bitrate || 0)];
+  };
+
+  return (
+    candidates
+      .map((f) => ({ format: f, score: score(f) }))
+      .sort((a, b) => {
+        const index = a.score.findIndex((value, i) => value !== b.score[i]);
+        return index === -1 ? 0 : a.score[index] - b.score[index];
+      })[0]?.format || null
+  );
+}
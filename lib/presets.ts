@@ -0,0 +1,114 @@
+import type { AudioOptions, VideoFormat, VideoInfo } from '@/types/video';
+import { codecFamily, formatSize, pairFormats } from '@/lib/formats';
+
+// Quality presets: rules that pick a format from any video's format list, so a download
+// can start without going through the dropdown. When nothing matches a rule exactly, the
+// nearest format is used instead.
+
+export interface QualityPreset {
+  id: string;
+  name: string;
+  // Download only the audio, transcoded with `audio`
+  audioOnly?: boolean;
+  audio?: AudioOptions;
+  // Highest resolution to pick; the lowest one above it is used when nothing fits
+  maxHeight?: number;
+  // Video codec families to prefer, e.g. `avc1`; any codec when none of them is offered
+  codecs?: string[];
+  // best: highest resolution, frame rate and bitrate; compact: highest resolution at the
+  // smallest size; smallest: smallest file overall
+  priority: 'best' | 'compact' | 'smallest';
+  // Built-in presets can't be deleted
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PRESETS: QualityPreset[] = [
+  { id: 'best', name: 'Best', priority: 'best', builtIn: true },
+  { id: '1080p-h264', name: '1080p max H.264', maxHeight: 1080, codecs: ['avc1'], priority: 'best', builtIn: true },
+  { id: '720p-small', name: '720p small', maxHeight: 720, priority: 'compact', builtIn: true },
+  {
+    id: 'audio-opus',
+    name: 'Audio only Opus',
+    audioOnly: true,
+    audio: { target: 'opus', bitrate: 160 },
+    priority: 'best',
+    builtIn: true,
+  },
+  { id: 'smallest', name: 'Smallest file', priority: 'smallest', builtIn: true },
+];
+
+export const DEFAULT_PRESET_ID = 'best';
+
+// Bytes a download in `format` takes, including the audio merged with a video-only
+// format; unknown sizes sort last
+function downloadSize(info: Pick<VideoInfo, 'formats' | 'duration'>, format: VideoFormat): number {
+  const streams = format.hasVideo && !format.hasAudio ? [format, pairFormats(info.formats, format)?.audio] : [format];
+  const sizes = streams.map((stream) => stream && formatSize(stream, info.duration));
+  return sizes.every(Boolean) ? sizes.reduce((total, size) => total + size!.bytes, 0) : Infinity;
+}
+
+function resolveAudio(formats: VideoFormat[], preset: QualityPreset): VideoFormat | null {
+  const audioFormats = formats
+    .filter((f) => f.hasAudio && !f.hasVideo)
+    .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0));
+  return (preset.priority === 'best' ? audioFormats[0] : audioFormats[audioFormats.length - 1]) || null;
+}
+
+// The format `preset` picks from a video's formats, or null when there is nothing to pick
+export function resolvePreset(info: Pick<VideoInfo, 'formats' | 'duration'>, preset: QualityPreset): VideoFormat | null {
+  if (preset.audioOnly) {
+    return resolveAudio(info.formats, preset);
+  }
+
+  const videos = info.formats.filter((f) => f.hasVideo);
+  if (videos.length === 0) {
+    return null;
+  }
+
+  // Above the cap only when nothing is below it, and then as little above as possible
+  let candidates = videos.filter((f) => !preset.maxHeight || (f.height || 0) <= preset.maxHeight);
+  if (candidates.length === 0) {
+    const lowest = Math.min(...videos.map((f) => f.height || 0));
+    candidates = videos.filter((f) => (f.height || 0) === lowest);
+  }
+
+  const preferred = candidates.filter((f) => preset.codecs?.includes(codecFamily(f.videoCodec)));
+  if (preferred.length > 0) {
+    candidates = preferred;
+  }
+
+  const size = (f: VideoFormat) => downloadSize(info, f);
+  const score = (f: VideoFormat): number[] => {
+    switch (preset.priority) {
+      case 'best':
+        return [-(f.height || 0), -(f.fps || 0), -(f.bitrate || 0)];
+      case 'compact':
+        return [-(f.height || 0), size(f)];
+      case 'smallest':
+        return [size(f), f.height || 0];
+    }
+  };
+
+  return candidates
+    .map((format) => ({ format, score: score(format) }))
+    .sort((a, b) => {
+      const index = a.score.findIndex((value, i) => value !== b.score[i]);
+      return index === -1 ? 0 : a.score[index] - b.score[index];
+    })[0].format;
+}
+
+// A preset that picks formats like `format`: the same resolution at most and the same
+// video codec, or the same audio settings for an audio-only download
+export function presetFromFormat(name: string, format: VideoFormat, audio: AudioOptions): QualityPreset {
+  const id = `custom-${Date.now().toString(36)}`;
+  if (!format.hasVideo) {
+    return { id, name, audioOnly: true, audio, priority: 'best' };
+  }
+  return {
+    id,
+    name,
+    maxHeight: format.height,
+    codecs: format.videoCodec ? [codecFamily(format.videoCodec)] : undefined,
+    priority: 'best',
+  };
+}
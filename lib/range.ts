@@ -0,0 +1,41 @@
+// HTTP byte ranges, shared by the proxy route and the segmented downloader. Only single
+// ranges are supported, which is all that browsers and download managers send.
+
+// Inclusive byte offsets, as in `Content-Range`
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Parse a `Range` header against a resource of `total` bytes. Returns null when the
+// header is malformed, asks for several ranges, or lies outside the resource.
+export function parseRange(header: string, total: number): ByteRange | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0) {
+      return null;
+    }
+    start = Math.max(total - length, 0);
+    end = total - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), total - 1) : total - 1;
+  }
+
+  if (start >= total || end < start) {
+    return null;
+  }
+  return { start, end };
+}
+
+export function formatContentRange(range: ByteRange, total: number): string {
+  return `bytes ${range.start}-${range.end}/${total}`;
+}
@@ -0,0 +1,148 @@
+import { createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { ApiError } from '@/lib/errors';
+import type { ApiKeyInfo, CreatedApiKey } from '@/types/api';
+
+// API keys for the /api/v1 routes, sent as `Authorization: Bearer <key>`.
+//
+// Keys come from two places:
+// - API_KEYS: comma-separated keys, optionally named as `name:key`
+// - a JSON file (API_KEYS_FILE, default .data/api-keys.json) managed through
+//   /api/v1/admin/keys, which needs ADMIN_TOKEN to be set
+//
+// Only SHA-256 hashes of file keys are stored; the key is shown once when created.
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+interface StoredKey {
+  id: string;
+  name: string;
+  hash: string;
+  createdAt: string;
+}
+
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+}
+
+const KEY_PREFIX = 'ytk_';
+// The key file is re-read at most this often, so revocations from another instance apply
+const FILE_CACHE_MS = 30 * 1000;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function keysFile(): string {
+  return process.env.API_KEYS_FILE || path.join(process.cwd(), '.data', 'api-keys.json');
+}
+
+function configuredKeys(): StoredKey[] {
+  return (process.env.API_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const name = separator > 0 ? entry.slice(0, separator) : 'config';
+      const key = separator > 0 ? entry.slice(separator + 1) : entry;
+      const hash = hashKey(key);
+      return { id: `config-${hash.slice(0, 8)}`, name, hash, createdAt: new Date(0).toISOString() };
+    });
+}
+
+let fileCache: { keys: StoredKey[]; readAt: number } | null = null;
+
+async function readStoredKeys(): Promise<StoredKey[]> {
+  if (fileCache && Date.now() - fileCache.readAt < FILE_CACHE_MS) {
+    return fileCache.keys;
+  }
+  let keys: StoredKey[] = [];
+  try {
+    keys = JSON.parse(await readFile(keysFile(), 'utf8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error('Failed to read API keys file:', error);
+    }
+  }
+  fileCache = { keys, readAt: Date.now() };
+  return keys;
+}
+
+async function writeStoredKeys(keys: StoredKey[]) {
+  const file = keysFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so a concurrent read never sees a half-written file
+  await writeFile(`${file}.tmp`, JSON.stringify(keys, null, 2));
+  await rename(`${file}.tmp`, file);
+  fileCache = { keys, readAt: Date.now() };
+}
+
+// The key sent with a request, from the Authorization header or X-API-Key
+function requestKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  return bearer ? bearer[1].trim() : request.headers.get(API_KEY_HEADER);
+}
+
+// Who a request is authenticated as, or null without a valid key
+export async function authenticateRequest(request: NextRequest): Promise<ApiKeyIdentity | null> {
+  const key = requestKey(request);
+  if (!key) {
+    return null;
+  }
+  const hash = hashKey(key);
+  const match = [...configuredKeys(), ...(await readStoredKeys())].find((stored) => stored.hash === hash);
+  return match ? { id: match.id, name: match.name } : null;
+}
+
+// Admin requests carry ADMIN_TOKEN as their bearer token; without a configured token the
+// admin routes are disabled. Throws unless the request may proceed.
+export function requireAdmin(request: NextRequest) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    throw new ApiError('ADMIN_DISABLED', 'Key management is disabled on this deployment');
+  }
+
+  // Compare hashes so the check takes the same time however much of the token matches
+  const key = requestKey(request);
+  if (key === null || hashKey(key) !== hashKey(token)) {
+    throw new ApiError('UNAUTHORIZED', 'The admin token is missing or wrong', { 'WWW-Authenticate': 'Bearer' });
+  }
+}
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  return [
+    ...configuredKeys().map(({ id, name, createdAt }) => ({ id, name, createdAt, source: 'config' as const })),
+    ...(await readStoredKeys()).map(({ id, name, createdAt }) => ({ id, name, createdAt, source: 'admin' as const })),
+  ];
+}
+
+export async function createApiKey(name: string): Promise<CreatedApiKey> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const stored: StoredKey = {
+    id: randomBytes(6).toString('hex'),
+    name,
+    hash: hashKey(key),
+    createdAt: new Date().toISOString(),
+  };
+
+  fileCache = null;
+  await writeStoredKeys([...(await readStoredKeys()), stored]);
+  return { id: stored.id, name, createdAt: stored.createdAt, source: 'admin', key };
+}
+
+// Revoke a key created through the admin route; false when no such key exists
+export async function revokeApiKey(id: string): Promise<boolean> {
+  fileCache = null;
+  const keys = await readStoredKeys();
+  const remaining = keys.filter((stored) => stored.id !== id);
+  if (remaining.length === keys.length) {
+    return false;
+  }
+  await writeStoredKeys(remaining);
+  return true;
+}
@@ -0,0 +1,110 @@
+import ytdl from '@oreohq/ytdl-core';
+import type { CaptionFormat, CaptionTrack } from '@/types/video';
+import { STREAM_REQUEST_OPTIONS } from '@/lib/server/youtube';
+
+// Caption tracks come from the player response that ytdl-core already fetched. Each
+// track is downloaded in YouTube's json3 format and converted here.
+
+interface RawCaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name?: { simpleText?: string; runs?: { text: string }[] };
+  vssId?: string;
+  kind?: string;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const CAPTION_MIME_TYPES: Record<CaptionFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+};
+
+function getRawTracks(info: ytdl.videoInfo): RawCaptionTrack[] {
+  return (info.player_response as any)?.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+}
+
+function toCaptionTrack(raw: RawCaptionTrack): CaptionTrack {
+  const autoGenerated = raw.kind === 'asr';
+  return {
+    id: raw.vssId || `${autoGenerated ? 'a' : ''}.${raw.languageCode}`,
+    languageCode: raw.languageCode,
+    name: raw.name?.simpleText || raw.name?.runs?.map((run) => run.text).join('') || raw.languageCode,
+    autoGenerated,
+  };
+}
+
+// List the caption tracks of a video, uploaded tracks first
+export function parseCaptionTracks(info: ytdl.videoInfo): CaptionTrack[] {
+  return getRawTracks(info)
+    .map(toCaptionTrack)
+    .sort((a, b) => Number(a.autoGenerated) - Number(b.autoGenerated));
+}
+
+// Download a track and turn it into timed cues
+export async function fetchCaptionCues(info: ytdl.videoInfo, trackId: string): Promise<CaptionCue[] | null> {
+  const raw = getRawTracks(info).find((track) => toCaptionTrack(track).id === trackId);
+  if (!raw) {
+    return null;
+  }
+
+  const url = new URL(raw.baseUrl);
+  url.searchParams.set('fmt', 'json3');
+  const response = await fetch(url, { headers: STREAM_REQUEST_OPTIONS.headers });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch captions: ${response.statusText} (${response.status})`);
+  }
+
+  const data = await response.json();
+  const cues: CaptionCue[] = [];
+  for (const event of data.events || []) {
+    // Auto-generated tracks interleave "append" events that only carry a line break
+    const text = (event.segs || []).map((seg: { utf8?: string }) => seg.utf8 || '').join('').trim();
+    if (!text) continue;
+
+    const start = (event.tStartMs || 0) / 1000;
+    cues.push({ start, end: start + (event.dDurationMs || 0) / 1000, text });
+  }
+  return cues;
+}
+
+// Format seconds as HH:MM:SS plus milliseconds with the given separator
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  if (format === 'txt') {
+    // Plain transcript: one line per cue, without the repeats auto-captions produce
+    const lines: string[] = [];
+    for (const cue of cues) {
+      const line = cue.text.replace(/\n/g, ' ');
+      if (lines[lines.length - 1] !== line) {
+        lines.push(line);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  if (format === 'vtt') {
+    const blocks = cues.map(
+      (cue) => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}`
+    );
+    return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+  }
+
+  const blocks = cues.map(
+    (cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}`
+  );
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors';
+
+// Serialising ApiError for the routes. Handlers throw ApiError for every expected
+// failure; anything else is logged and reported as INTERNAL_ERROR.
+
+export function errorResponse(error: ApiError): NextResponse {
+  return NextResponse.json(error.toJSON(), { status: error.status, headers: error.headers });
+}
+
+// Wrap a route handler so thrown errors become API error responses. Server-side failures
+// are logged with their code, so logs can be grouped by it.
+export function withErrorHandling<Context>(
+  route: string,
+  handler: (request: NextRequest, context: Context) => Promise<NextResponse>
+): (request: NextRequest, context: Context) => Promise<NextResponse> {
+  return async (request, context) => {
+    try {
+      return await handler(request, context);
+    } catch (error: any) {
+      if (error instanceof ApiError) {
+        if (error.status >= 500) {
+          console.error(`[${error.code}] ${route}: ${error.message}`);
+        }
+        return errorResponse(error);
+      }
+      console.error(`[INTERNAL_ERROR] ${route}:`, error);
+      return errorResponse(new ApiError('INTERNAL_ERROR', 'An unexpected error occurred. Please try again later'));
+    }
+  };
+}
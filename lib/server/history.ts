@@ -0,0 +1,166 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { HistoryEntry } from '@/types/video';
+import type { HistorySnapshot } from '@/types/api';
+import { ApiError } from '@/lib/errors';
+import { AUDIO_TARGETS } from '@/lib/ffmpegArgs';
+
+// Server copies of download histories, so one history can follow a user across browsers.
+// A history is identified by a random sync code the browser makes up; anyone holding the
+// code can read and change it, so there are no accounts to manage.
+//
+// Sync is off unless HISTORY_SYNC_DIR names a directory to keep histories in (one JSON
+// file per sync code). Serverless platforms have no lasting filesystem, so it needs a
+// long-running server or a mounted volume.
+
+export const SYNC_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+// Oldest entries and tombstones are dropped beyond these
+const MAX_ENTRIES = 1000;
+const MAX_DELETED = 1000;
+// Longer strings than any real title, filename or URL are refused
+const MAX_STRING_LENGTH = 2000;
+
+// Writes to one history are chained so concurrent requests don't lose each other's changes
+const writes = new Map<string, Promise<unknown>>();
+
+function historyFile(syncId: string): string {
+  const directory = process.env.HISTORY_SYNC_DIR;
+  if (!directory) {
+    throw new ApiError('SYNC_DISABLED', 'History sync is not enabled on this server');
+  }
+  if (!SYNC_ID_PATTERN.test(syncId)) {
+    throw new ApiError('MISSING_PARAMS', 'A valid sync code is required');
+  }
+  return path.join(directory, `${syncId}.json`);
+}
+
+async function readSnapshot(file: string): Promise<HistorySnapshot> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error('Failed to read history file:', error);
+    }
+    return { entries: [], deleted: [] };
+  }
+}
+
+function update(syncId: string, change: (snapshot: HistorySnapshot) => HistorySnapshot): Promise<HistorySnapshot> {
+  const file = historyFile(syncId);
+  const previous = writes.get(file) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const snapshot = change(await readSnapshot(file));
+    snapshot.entries = snapshot.entries
+      .sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt))
+      .slice(0, MAX_ENTRIES);
+    snapshot.deleted = snapshot.deleted.slice(-MAX_DELETED);
+
+    await mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a concurrent read never sees a half-written file
+    await writeFile(`${file}.tmp`, JSON.stringify(snapshot));
+    await rename(`${file}.tmp`, file);
+    return snapshot;
+  });
+
+  writes.set(file, next);
+  next.finally(() => {
+    if (writes.get(file) === next) writes.delete(file);
+  }).catch(() => undefined);
+  return next;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_STRING_LENGTH;
+}
+
+function optional<T>(value: unknown, check: (value: unknown) => value is T): T | undefined {
+  return check(value) ? value : undefined;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number';
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+// Check an entry sent by a client; throws INVALID_BODY when it isn't one. Only the fields
+// a history entry has are kept, so clients can't store anything else.
+export function parseHistoryEntry(value: any): HistoryEntry {
+  const format = value?.format;
+  if (
+    !isString(value?.id) ||
+    !isString(value.videoId) ||
+    !isString(value.title) ||
+    !isString(value.thumbnail) ||
+    !isString(value.filename) ||
+    !isString(value.downloadedAt) ||
+    isNaN(Date.parse(value.downloadedAt)) ||
+    (value.size !== undefined && typeof value.size !== 'number') ||
+    typeof format?.itag !== 'number' ||
+    !isString(format.mimeType) ||
+    !isString(format.quality) ||
+    !isString(format.container) ||
+    typeof format.hasVideo !== 'boolean' ||
+    typeof format.hasAudio !== 'boolean'
+  ) {
+    throw new ApiError('INVALID_BODY', 'Invalid history entry');
+  }
+
+  const { id, videoId, title, thumbnail, filename, size, downloadedAt, audio } = value;
+  // The format's URL is left out, so expired links aren't stored
+  return {
+    id,
+    videoId,
+    title,
+    thumbnail,
+    format: {
+      itag: format.itag,
+      mimeType: format.mimeType,
+      quality: format.quality,
+      qualityLabel: optional(format.qualityLabel, isString),
+      container: format.container,
+      hasVideo: format.hasVideo,
+      hasAudio: format.hasAudio,
+      videoCodec: optional(format.videoCodec, isString),
+      audioCodec: optional(format.audioCodec, isString),
+      width: optional(format.width, isNumber),
+      height: optional(format.height, isNumber),
+      fps: optional(format.fps, isNumber),
+      hdr: optional(format.hdr, isBoolean),
+      bitrate: optional(format.bitrate, isNumber),
+      contentLength: optional(format.contentLength, isString),
+    },
+    audio:
+      isString(audio?.target) && Object.hasOwn(AUDIO_TARGETS, audio.target) && typeof audio.bitrate === 'number'
+        ? { target: audio.target, bitrate: audio.bitrate }
+        : undefined,
+    filename,
+    size,
+    downloadedAt,
+  };
+}
+
+export async function getHistory(syncId: string): Promise<HistorySnapshot> {
+  return readSnapshot(historyFile(syncId));
+}
+
+// Add entries, skipping ones already there or deleted before
+export function addHistoryEntries(syncId: string, entries: HistoryEntry[]): Promise<HistorySnapshot> {
+  return update(syncId, (snapshot) => {
+    const known = new Set([...snapshot.entries.map((entry) => entry.id), ...snapshot.deleted]);
+    return { ...snapshot, entries: [...snapshot.entries, ...entries.filter((entry) => !known.has(entry.id))] };
+  });
+}
+
+export function deleteHistoryEntry(syncId: string, id: string): Promise<HistorySnapshot> {
+  if (!isString(id)) {
+    throw new ApiError('MISSING_PARAMS', 'A valid entry id is required');
+  }
+  return update(syncId, (snapshot) => ({
+    entries: snapshot.entries.filter((entry) => entry.id !== id),
+    deleted: snapshot.deleted.includes(id) ? snapshot.deleted : [...snapshot.deleted, id],
+  }));
+}
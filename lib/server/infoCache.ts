@@ -0,0 +1,217 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type ytdl from '@oreohq/ytdl-core';
+import { getVideoInfo } from '@/lib/server/youtube';
+import { RedisRest } from '@/lib/server/redis';
+
+// Cache for ytdl.getInfo results, shared by the API routes so one download doesn't fetch
+// the watch page for every request it makes. Entries live until shortly before the
+// signed format URLs expire.
+//
+// Configured through the environment:
+// - INFO_CACHE_BACKEND: `memory` (default), `redis` or `file`
+// - INFO_CACHE_MAX_ENTRIES: size of the in-memory LRU (default 200)
+// - INFO_CACHE_REDIS_URL / INFO_CACHE_REDIS_TOKEN: a Redis REST endpoint (e.g. Upstash)
+// - INFO_CACHE_DIR: directory for the file backend (default: the OS temp directory)
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+// Response header reporting whether the video info came from the cache
+export const CACHE_STATUS_HEADER = 'X-Cache';
+
+export interface InfoCacheBackend {
+  get(key: string): Promise<ytdl.videoInfo | null>;
+  set(key: string, info: ytdl.videoInfo, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Stop serving URLs this long before YouTube's expiry, so a download started from a cached
+// entry still has time to finish
+const EXPIRY_MARGIN_SECONDS = 30 * 60;
+// Used when no format URL carries an expiry
+const DEFAULT_TTL_SECONDS = 10 * 60;
+const MAX_TTL_SECONDS = 6 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 200;
+
+// Seconds until the earliest `expire` parameter among the format URLs, less the margin
+export function infoTtlSeconds(info: ytdl.videoInfo, now = Date.now()): number {
+  const expiries = info.formats
+    .map((format) => {
+      try {
+        return parseInt(new URL(format.url).searchParams.get('expire') || '', 10);
+      } catch {
+        return NaN;
+      }
+    })
+    .filter((expire) => Number.isFinite(expire));
+
+  if (expiries.length === 0) {
+    return DEFAULT_TTL_SECONDS;
+  }
+  const ttl = Math.min(...expiries) - Math.floor(now / 1000) - EXPIRY_MARGIN_SECONDS;
+  return Math.max(0, Math.min(ttl, MAX_TTL_SECONDS));
+}
+
+// Least recently used entries are dropped once the cache is full
+export class MemoryInfoCache implements InfoCacheBackend {
+  private entries = new Map<string, { info: ytdl.videoInfo; expiresAt: number }>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.info;
+  }
+
+  async set(key: string, info: ytdl.videoInfo, ttlSeconds: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { info, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+// Shared by every instance, so it suits serverless deployments
+export class RedisInfoCache implements InfoCacheBackend {
+  private redis: RedisRest;
+
+  constructor(url: string, token?: string) {
+    this.redis = new RedisRest(url, token);
+  }
+
+  async get(key: string) {
+    const value = await this.redis.command(['GET', `ytdl-info:${key}`]);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(key: string, info: ytdl.videoInfo, ttlSeconds: number) {
+    await this.redis.command(['SET', `ytdl-info:${key}`, JSON.stringify(info), 'EX', ttlSeconds]);
+  }
+
+  async delete(key: string) {
+    await this.redis.command(['DEL', `ytdl-info:${key}`]);
+  }
+}
+
+// One JSON file per video; useful for a single long-running server that restarts
+export class FileInfoCache implements InfoCacheBackend {
+  constructor(private directory: string) {}
+
+  private file(key: string) {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      const { info, expiresAt } = JSON.parse(await readFile(this.file(key), 'utf8'));
+      if (expiresAt <= Date.now()) {
+        await this.delete(key);
+        return null;
+      }
+      return info;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, info: ytdl.videoInfo, ttlSeconds: number) {
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a half-written file
+    const temporary = `${this.file(key)}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify({ info, expiresAt: Date.now() + ttlSeconds * 1000 }));
+    await rename(temporary, this.file(key));
+  }
+
+  async delete(key: string) {
+    await rm(this.file(key), { force: true });
+  }
+}
+
+function createBackend(): InfoCacheBackend {
+  const backend = process.env.INFO_CACHE_BACKEND || 'memory';
+
+  if (backend === 'redis') {
+    const url = process.env.INFO_CACHE_REDIS_URL;
+    if (url) {
+      return new RedisInfoCache(url, process.env.INFO_CACHE_REDIS_TOKEN);
+    }
+    console.warn('INFO_CACHE_BACKEND is redis but INFO_CACHE_REDIS_URL is not set; using the in-memory cache');
+  } else if (backend === 'file') {
+    return new FileInfoCache(process.env.INFO_CACHE_DIR || path.join(tmpdir(), 'ytdl-info-cache'));
+  } else if (backend !== 'memory') {
+    console.warn(`Unknown INFO_CACHE_BACKEND "${backend}"; using the in-memory cache`);
+  }
+
+  const maxEntries = parseInt(process.env.INFO_CACHE_MAX_ENTRIES || '', 10);
+  return new MemoryInfoCache(maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES);
+}
+
+let cache: InfoCacheBackend | null = null;
+// Lookups already in flight, so simultaneous requests for one video share a fetch
+const pending = new Map<string, Promise<ytdl.videoInfo>>();
+
+function getCache(): InfoCacheBackend {
+  cache ??= createBackend();
+  return cache;
+}
+
+async function storeVideoInfo(backend: InfoCacheBackend, videoId: string, info: ytdl.videoInfo) {
+  const ttl = infoTtlSeconds(info);
+  if (ttl <= 0) {
+    return;
+  }
+  try {
+    await backend.set(videoId, info, ttl);
+  } catch (error) {
+    console.error('Video info cache write failed:', error);
+  }
+}
+
+// Video info from the cache, or fetched from YouTube and cached. A failing cache backend
+// is logged and skipped rather than failing the request.
+export async function getCachedVideoInfo(videoId: string): Promise<{ info: ytdl.videoInfo; cacheStatus: CacheStatus }> {
+  const backend = getCache();
+
+  try {
+    const cached = await backend.get(videoId);
+    if (cached) {
+      return { info: cached, cacheStatus: 'HIT' };
+    }
+  } catch (error) {
+    console.error('Video info cache read failed:', error);
+  }
+
+  let lookup = pending.get(videoId);
+  if (!lookup) {
+    lookup = getVideoInfo(videoId).finally(() => pending.delete(videoId));
+    pending.set(videoId, lookup);
+    // Lookup errors reach the caller below
+    lookup.then((info) => storeVideoInfo(backend, videoId, info), () => undefined);
+  }
+
+  return { info: await lookup, cacheStatus: 'MISS' };
+}
+
+// Drop a cached entry, e.g. when YouTube rejects one of its URLs
+export async function invalidateVideoInfo(videoId: string): Promise<void> {
+  try {
+    await getCache().delete(videoId);
+  } catch (error) {
+    console.error('Video info cache delete failed:', error);
+  }
+}
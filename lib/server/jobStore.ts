@@ -0,0 +1,62 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Job } from '@/types/api';
+
+// Where background jobs keep their records and the files they produce. Only a local
+// directory store exists; anything implementing JobStore can replace it in jobs.ts.
+
+export interface JobStore {
+  get(id: string): Promise<Job | null>;
+  save(job: Job): Promise<void>;
+  list(): Promise<Job[]>;
+  // Remove the record and the result
+  delete(id: string): Promise<void>;
+  // Path the job's output is written to
+  resultPath(id: string): string;
+}
+
+// One directory per job, holding job.json and the result file
+export class FileJobStore implements JobStore {
+  constructor(private directory: string) {}
+
+  private jobDir(id: string) {
+    return path.join(this.directory, id);
+  }
+
+  async get(id: string) {
+    try {
+      return JSON.parse(await readFile(path.join(this.jobDir(id), 'job.json'), 'utf8')) as Job;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(job: Job) {
+    const directory = this.jobDir(job.id);
+    await mkdir(directory, { recursive: true });
+    // Write then rename so readers never see a half-written record
+    const file = path.join(directory, 'job.json');
+    await writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+    await rename(`${file}.tmp`, file);
+  }
+
+  async list() {
+    let ids: string[];
+    try {
+      ids = await readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const jobs = await Promise.all(ids.map((id) => this.get(id)));
+    return jobs.filter((job): job is Job => job !== null);
+  }
+
+  async delete(id: string) {
+    await rm(this.jobDir(id), { recursive: true, force: true });
+  }
+
+  resultPath(id: string) {
+    return path.join(this.jobDir(id), 'result');
+  }
+}
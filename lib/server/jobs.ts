@@ -0,0 +1,399 @@
+import { randomBytes } from 'crypto';
+import { createWriteStream } from 'fs';
+import { rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import ytdl from '@oreohq/ytdl-core';
+import type { DownloadProgress } from '@/types/video';
+import type { CreateJobRequest, Job, JobOptions } from '@/types/api';
+import { CONTAINER_MIME_TYPES } from '@/lib/ffmpegArgs';
+import { sanitizeFilename } from '@/lib/filename';
+import { ApiError, toApiError } from '@/lib/errors';
+import { TransferRate } from '@/lib/transferRate';
+import { STREAM_REQUEST_OPTIONS } from '@/lib/server/youtube';
+import { getCachedVideoInfo } from '@/lib/server/infoCache';
+import { findMergeFormats, isMergeAvailable, prepareMerge, startMerge } from '@/lib/server/merge';
+import { FileJobStore, type JobStore } from '@/lib/server/jobStore';
+
+// Background jobs for downloads that can't finish within one request: long videos and
+// server-side merging. Jobs run in this process, a few at a time, and write their result
+// to the job store, where it is kept for a while after the job ends. Serverless platforms
+// stop the process between requests, so jobs need a long-running server (`next start`).
+//
+// Configured through the environment:
+// - JOBS_DIR: directory for job records and results (default: the OS temp directory)
+// - JOBS_CONCURRENCY: jobs running at once (default 2)
+// - JOBS_MAX_QUEUED: jobs waiting to start before new ones are refused (default 20)
+// - JOBS_TTL_MINUTES: how long a finished job and its file are kept (default 60)
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_QUEUED = 20;
+const DEFAULT_TTL_MINUTES = 60;
+// Progress is written to the store at most this often
+const PROGRESS_SAVE_INTERVAL = 1000;
+
+const JOB_ID_PATTERN = /^[a-f0-9]{16}$/;
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+function ttlMs(): number {
+  return envNumber('JOBS_TTL_MINUTES', DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+interface QueuedJob {
+  job: Job;
+  // Route prefix the job was created through, `/api` or `/api/v1`; its links use the same
+  basePath: string;
+}
+
+interface ActiveJob extends QueuedJob {
+  controller: AbortController;
+  // Saves for one job are chained so an older snapshot never overwrites a newer one
+  saving: Promise<void>;
+}
+
+let store: JobStore | null = null;
+let ready: Promise<void> | null = null;
+const queue: QueuedJob[] = [];
+const active = new Map<string, ActiveJob>();
+
+function getStore(): JobStore {
+  store ??= new FileJobStore(process.env.JOBS_DIR || path.join(tmpdir(), 'ytdl-jobs'));
+  return store;
+}
+
+// On first use, fail jobs a previous process left unfinished
+function init(): Promise<void> {
+  ready ??= getStore()
+    .list()
+    .then(async (jobs) => {
+      for (const job of jobs) {
+        if (job.status === 'queued' || job.status === 'running') {
+          await finish(job, 'failed', {
+            error: { code: 'INTERNAL_ERROR', message: 'The server restarted before the job finished' },
+          });
+        }
+      }
+    })
+    .catch((error) => console.error('Failed to recover background jobs:', error));
+  return ready;
+}
+
+// Remove finished jobs whose time is up
+async function sweepExpired() {
+  const now = Date.now();
+  for (const job of await getStore().list()) {
+    const pending = active.has(job.id) || queue.some((queued) => queued.job.id === job.id);
+    if (!pending && Date.parse(job.expiresAt) <= now) {
+      await getStore().delete(job.id);
+    }
+  }
+}
+
+function persist(entry: ActiveJob): Promise<void> {
+  const snapshot: Job = { ...entry.job, updatedAt: new Date().toISOString() };
+  entry.saving = entry.saving
+    .then(() => getStore().save(snapshot))
+    .catch((error) => console.error(`Failed to save job ${snapshot.id}:`, error));
+  return entry.saving;
+}
+
+async function finish(job: Job, status: Job['status'], changes: Partial<Job> = {}) {
+  const now = new Date();
+  Object.assign(job, changes, {
+    status,
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlMs()).toISOString(),
+  });
+  await getStore().save(job);
+}
+
+function validateRequest(body: unknown): CreateJobRequest {
+  if (!body || typeof body !== 'object') {
+    throw new ApiError('INVALID_BODY', 'Body must be a JSON object');
+  }
+  const { videoId, itags, options = {} } = body as Record<string, unknown>;
+  if (typeof videoId !== 'string' || !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+    throw new ApiError('INVALID_VIDEO_ID', 'Invalid video ID format');
+  }
+  if (
+    !Array.isArray(itags) ||
+    itags.length < 1 ||
+    itags.length > 2 ||
+    !itags.every((itag) => Number.isInteger(itag) && itag > 0)
+  ) {
+    throw new ApiError('INVALID_FORMAT', 'itags must hold one format, or a video format and an audio format');
+  }
+  if (typeof options !== 'object' || options === null) {
+    throw new ApiError('INVALID_BODY', 'options must be an object');
+  }
+
+  const { container, start, end, captions, chapters, metadata, filename } = options as Record<string, unknown>;
+  if (container !== undefined && !(typeof container === 'string' && Object.hasOwn(CONTAINER_MIME_TYPES, container))) {
+    throw new ApiError('INVALID_CONTAINER', 'Container must be mp4, webm or mkv');
+  }
+  if ((start !== undefined && typeof start !== 'number') || (end !== undefined && typeof end !== 'number')) {
+    throw new ApiError('INVALID_RANGE', 'Start and end must be numbers of seconds');
+  }
+  if (captions !== undefined && !(Array.isArray(captions) && captions.every((id) => typeof id === 'string'))) {
+    throw new ApiError('INVALID_BODY', 'captions must be a list of caption track IDs');
+  }
+  if (filename !== undefined && typeof filename !== 'string') {
+    throw new ApiError('INVALID_BODY', 'filename must be a string');
+  }
+
+  return {
+    videoId,
+    itags,
+    options: {
+      container: container as JobOptions['container'],
+      start: start as number | undefined,
+      end: end as number | undefined,
+      captions: captions as string[] | undefined,
+      chapters: Boolean(chapters),
+      metadata: Boolean(metadata),
+      filename: filename as string | undefined,
+    },
+  };
+}
+
+// The format a job saves, and whether it is merged through ffmpeg or saved as-is. Fails
+// when the format isn't there, or when options only a merge can apply are set without one.
+function resolveFormat(
+  info: ytdl.videoInfo,
+  itags: number[],
+  options: JobOptions
+): { format: ytdl.videoFormat; merge: boolean } {
+  const [itag, audioItag] = itags;
+  const format = info.formats.find((f) => f.itag === itag);
+  if (!format) {
+    throw new ApiError('FORMAT_NOT_FOUND', 'Requested format not found');
+  }
+  if (audioItag !== undefined && !format.hasVideo) {
+    throw new ApiError('INVALID_FORMAT', 'The first of two itags must be a video format');
+  }
+
+  const merge = format.hasVideo && (!format.hasAudio || audioItag !== undefined);
+  if (merge && !isMergeAvailable()) {
+    throw new ApiError('FFMPEG_UNAVAILABLE', 'Server-side merging is not available on this deployment');
+  }
+  const { container, start, end, captions, chapters, metadata } = options;
+  if (!merge && (container || start !== undefined || end !== undefined || captions?.length || chapters || metadata)) {
+    throw new ApiError(
+      'INVALID_FORMAT',
+      'Container, clip, captions, chapters and metadata options need a video-only format, or a video and an audio itag'
+    );
+  }
+  return { format, merge };
+}
+
+// Queue a job; it starts as soon as a slot is free
+export async function createJob(body: unknown, basePath = '/api'): Promise<Job> {
+  const request = validateRequest(body);
+  // Refuse a job that could only fail before handing out its id
+  const { info } = await getCachedVideoInfo(request.videoId);
+  resolveFormat(info, request.itags, request.options || {});
+  await init();
+
+  if (queue.length >= envNumber('JOBS_MAX_QUEUED', DEFAULT_MAX_QUEUED)) {
+    throw new ApiError('QUEUE_FULL', 'Too many jobs are waiting to start. Please try again later', {
+      'Retry-After': '60',
+    });
+  }
+  await sweepExpired();
+
+  const now = new Date();
+  const job: Job = {
+    id: randomBytes(8).toString('hex'),
+    videoId: request.videoId,
+    itags: request.itags,
+    options: request.options || {},
+    status: 'queued',
+    progress: { stage: 'idle', progress: 0, message: 'Waiting to start...' },
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlMs()).toISOString(),
+  };
+  await getStore().save(job);
+
+  queue.push({ job, basePath });
+  startQueued();
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job> {
+  if (!JOB_ID_PATTERN.test(id)) {
+    throw new ApiError('JOB_NOT_FOUND', 'No job with this id');
+  }
+  const job = active.get(id)?.job || queue.find((queued) => queued.job.id === id)?.job || (await getStore().get(id));
+  if (!job) {
+    throw new ApiError('JOB_NOT_FOUND', 'No job with this id');
+  }
+  return job;
+}
+
+// Stop a queued or running job and remove its file; finished jobs are removed outright
+export async function cancelJob(id: string): Promise<Job> {
+  const job = await getJob(id);
+  const entry = active.get(id);
+  if (entry) {
+    entry.job.status = 'cancelled';
+    entry.controller.abort();
+    return entry.job;
+  }
+
+  const queued = queue.findIndex((entry) => entry.job.id === id);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+    await finish(job, 'cancelled', { progress: { stage: 'idle', progress: 0 } });
+    return job;
+  }
+
+  await getStore().delete(id);
+  return job;
+}
+
+// The finished file of a complete job
+export async function getJobResult(id: string): Promise<{ job: Job; path: string }> {
+  const job = await getJob(id);
+  if (job.status !== 'complete' || !job.result) {
+    throw new ApiError('JOB_NOT_READY', `The job is ${job.status}; its file is available once it is complete`);
+  }
+  return { job, path: getStore().resultPath(id) };
+}
+
+function startQueued() {
+  while (active.size < envNumber('JOBS_CONCURRENCY', DEFAULT_CONCURRENCY) && queue.length > 0) {
+    const { job, basePath } = queue.shift()!;
+    const entry: ActiveJob = { job, basePath, controller: new AbortController(), saving: Promise.resolve() };
+    active.set(job.id, entry);
+    run(entry).finally(() => {
+      active.delete(job.id);
+      startQueued();
+    });
+  }
+}
+
+async function run(entry: ActiveJob) {
+  const { job } = entry;
+  const { id } = job;
+  job.status = 'running';
+  await persist(entry);
+
+  let lastSave = 0;
+  const report = (progress: DownloadProgress) => {
+    const stageChanged = progress.stage !== job.progress.stage;
+    job.progress = progress;
+    if (stageChanged || Date.now() - lastSave >= PROGRESS_SAVE_INTERVAL) {
+      lastSave = Date.now();
+      persist(entry);
+    }
+  };
+
+  try {
+    const result = await processJob(job, entry.basePath, report, entry.controller.signal);
+    await entry.saving;
+    await finish(job, 'complete', {
+      result,
+      progress: { stage: 'complete', progress: 100, message: 'Ready to download' },
+    });
+  } catch (error) {
+    await entry.saving;
+    await rm(getStore().resultPath(id), { force: true });
+    if (entry.controller.signal.aborted) {
+      await finish(job, 'cancelled', { progress: { stage: 'idle', progress: 0 } });
+      return;
+    }
+    const { code, message } = toApiError(error);
+    console.error(`[${code}] job ${id}: ${message}`);
+    await finish(job, 'failed', { error: { code, message }, progress: { stage: 'idle', progress: 0 } });
+  }
+}
+
+// Download the requested format, or merge a video format with audio, into the result file.
+// A cancelled job stops at the next step.
+async function processJob(
+  job: Job,
+  basePath: string,
+  report: (progress: DownloadProgress) => void,
+  signal: AbortSignal
+) {
+  report({ stage: 'fetching', progress: 0, message: 'Fetching video information...' });
+  const { info } = await getCachedVideoInfo(job.videoId);
+  signal.throwIfAborted();
+  const output = getStore().resultPath(job.id);
+  const { options } = job;
+
+  // Checked when the job was created; the cached info may have changed since
+  const [itag, audioItag] = job.itags;
+  const { format, merge } = resolveFormat(info, job.itags, options);
+
+  let contentType: string;
+  let extension: string;
+  if (merge) {
+    const { videoFormat, audioFormat, container, copyAudio } = findMergeFormats(info, itag, audioItag, options.container);
+    const mergeOptions = await prepareMerge(info, container, {
+      start: options.start,
+      end: options.end,
+      captionIds: options.captions,
+      chapters: options.chapters,
+      metadata: options.metadata,
+    });
+    signal.throwIfAborted();
+
+    report({ stage: 'merging', progress: 0, message: 'Downloading and merging streams...' });
+    const merged = await startMerge(info, videoFormat, audioFormat, { ...mergeOptions, copyAudio, signal });
+
+    // The merged size is unknown until ffmpeg finishes; the inputs' size is close enough
+    const estimate = parseInt(videoFormat.contentLength || '0', 10) + parseInt(audioFormat.contentLength || '0', 10);
+    const rate = new TransferRate(estimate);
+    let written = 0;
+    merged.on('data', (chunk: Buffer) => {
+      written += chunk.length;
+      if (estimate > 0) {
+        report({
+          stage: 'merging',
+          progress: Math.min(99, (written / estimate) * 100),
+          message: 'Downloading and merging streams...',
+          ...rate.update(written),
+        });
+      }
+    });
+    await pipeline(merged, createWriteStream(output), { signal });
+
+    contentType = CONTAINER_MIME_TYPES[container];
+    extension = container;
+  } else {
+    report({ stage: 'downloading', progress: 0, message: 'Downloading...' });
+    const stream = ytdl.downloadFromInfo(info, { format, requestOptions: STREAM_REQUEST_OPTIONS });
+    const rate = new TransferRate(parseInt(format.contentLength || '0', 10) || null);
+    stream.on('progress', (_chunk: number, downloaded: number, total: number) => {
+      report({
+        stage: 'downloading',
+        progress: total > 0 ? (downloaded / total) * 100 : 0,
+        message: 'Downloading...',
+        ...rate.update(downloaded),
+      });
+    });
+    await pipeline(stream, createWriteStream(output), { signal });
+
+    contentType = format.mimeType?.split(';')[0] || 'application/octet-stream';
+    extension = format.container;
+  }
+  signal.throwIfAborted();
+
+  const filename = options.filename
+    ? sanitizeFilename(options.filename)
+    : `${sanitizeFilename(info.videoDetails.title) || job.videoId}.${extension}`;
+
+  return {
+    filename,
+    contentType,
+    size: (await stat(output)).size,
+    url: `${basePath}/jobs/${job.id}/result`,
+  };
+}
@@ -0,0 +1,247 @@
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Readable, Writable } from 'stream';
+import ffmpegPath from 'ffmpeg-static';
+import ytdl from '@oreohq/ytdl-core';
+import type { CaptionTrack, TrimRange } from '@/types/video';
+import {
+  buildMediaTags,
+  buildMergeArgs,
+  type MediaTags,
+  containerHoldsVideo,
+  type MergeContainer,
+  type SubtitleInput,
+} from '@/lib/ffmpegArgs';
+import { buildChapterMetadata, chapterSegments } from '@/lib/chapters';
+import { pairFormats, validateTrimRange } from '@/lib/formats';
+import { ApiError } from '@/lib/errors';
+import { getUploadDate, parseChapters, parseFormat, STREAM_REQUEST_OPTIONS } from '@/lib/server/youtube';
+import { fetchCaptionCues, formatCaptions, parseCaptionTracks } from '@/lib/server/captions';
+
+// Server-side muxing with the native ffmpeg binary from ffmpeg-static. Both streams are
+// piped straight from YouTube into ffmpeg and the output is piped back to the client,
+// so nothing is buffered in full on either side.
+
+export interface MergeSubtitle {
+  track: CaptionTrack;
+  srt: string;
+}
+
+export interface MergeOptions {
+  container: MergeContainer;
+  // Whether the audio suits the container; otherwise it is re-encoded
+  copyAudio?: boolean;
+  trim?: TrimRange;
+  subtitles?: MergeSubtitle[];
+  // FFMETADATA chapter markers to embed
+  chapterMetadata?: string;
+  // The output is a stream, so only tags are written; cover art needs a seekable file
+  tags?: MediaTags;
+  signal?: AbortSignal;
+}
+
+// Extras a client can ask for with a merge, from /api/merge's query or a job request
+export interface MergeExtras {
+  // Clip range in seconds; either end may be left open
+  start?: number;
+  end?: number;
+  // Caption track IDs to embed as soft subtitles
+  captionIds?: string[];
+  chapters?: boolean;
+  metadata?: boolean;
+}
+
+export function isMergeAvailable(): boolean {
+  return Boolean(ffmpegPath);
+}
+
+export interface MergeFormats {
+  videoFormat: ytdl.videoFormat;
+  audioFormat: ytdl.videoFormat;
+  container: MergeContainer;
+  copyAudio: boolean;
+}
+
+// The requested video format, the requested audio format or the audio that pairs best
+// with it (see pairFormats), and the container to merge them into. Without a requested
+// container one is chosen from the codecs.
+export function findMergeFormats(
+  info: ytdl.videoInfo,
+  itag: number,
+  audioItag?: number,
+  container?: MergeContainer
+): MergeFormats {
+  const videoFormat = info.formats.find((f) => f.itag === itag);
+  if (!videoFormat || !videoFormat.hasVideo) {
+    throw new ApiError('FORMAT_NOT_FOUND', 'Requested video format not found');
+  }
+  if (container && !containerHoldsVideo(container, videoFormat.videoCodec)) {
+    throw new ApiError('INVALID_CONTAINER', `${container.toUpperCase()} can't hold this format's video; use mp4 or mkv`);
+  }
+
+  let candidates = info.formats.filter((f) => f.url);
+  if (audioItag !== undefined) {
+    candidates = candidates.filter((f) => f.itag === audioItag && f.hasAudio && !f.hasVideo);
+    if (candidates.length === 0) {
+      throw new ApiError('FORMAT_NOT_FOUND', 'Requested audio format not found');
+    }
+  }
+
+  const pairing = pairFormats(candidates.map(parseFormat), parseFormat(videoFormat), container);
+  const audioFormat = pairing && info.formats.find((f) => f.itag === pairing.audio.itag);
+  if (!pairing || !audioFormat) {
+    throw new ApiError('NO_AUDIO', 'No audio stream available for merging');
+  }
+  return { videoFormat, audioFormat, container: pairing.container, copyAudio: pairing.copyAudio };
+}
+
+// Check the clip range and fetch what the extras need, ready for startMerge
+export async function prepareMerge(
+  info: ytdl.videoInfo,
+  container: MergeContainer,
+  { start, end, captionIds = [], chapters, metadata }: MergeExtras
+): Promise<MergeOptions> {
+  const duration = parseInt(info.videoDetails.lengthSeconds || '0', 10);
+  let trim: TrimRange | undefined;
+  if (start !== undefined || end !== undefined) {
+    trim = { start: start ?? 0, end: end ?? duration };
+    const trimError = Number.isFinite(trim.start) && Number.isFinite(trim.end)
+      ? validateTrimRange(trim, duration)
+      : 'Start and end must be numbers of seconds';
+    if (trimError) {
+      throw new ApiError('INVALID_RANGE', trimError);
+    }
+  }
+
+  const subtitles: MergeSubtitle[] = [];
+  const tracks = parseCaptionTracks(info);
+  for (const id of captionIds) {
+    const track = tracks.find((t) => t.id === id);
+    const cues = track && (await fetchCaptionCues(info, id));
+    if (!track || !cues) {
+      throw new ApiError('CAPTIONS_NOT_FOUND', `Caption track ${id} is not available for this video`);
+    }
+    subtitles.push({ track, srt: formatCaptions(cues, 'srt') });
+  }
+
+  // Chapter markers are shifted to match the clip
+  const segments = chapters ? chapterSegments(parseChapters(info), duration, trim) : [];
+
+  return {
+    container,
+    trim,
+    subtitles,
+    chapterMetadata: segments.length > 0 ? buildChapterMetadata(segments) : undefined,
+    tags: metadata
+      ? buildMediaTags({
+          videoId: info.videoDetails.videoId,
+          title: info.videoDetails.title,
+          author: info.videoDetails.author?.name || 'Unknown',
+          uploadDate: getUploadDate(info),
+          description: info.videoDetails.description || '',
+        })
+      : undefined,
+  };
+}
+
+// Start muxing the given video and audio formats; returns ffmpeg's stdout.
+// Subtitles and chapters can't share the pipes, so they go through a temporary directory.
+export async function startMerge(
+  info: ytdl.videoInfo,
+  videoFormat: ytdl.videoFormat,
+  audioFormat: ytdl.videoFormat,
+  { container, copyAudio, trim, subtitles = [], chapterMetadata, tags, signal }: MergeOptions
+): Promise<Readable> {
+  if (!ffmpegPath) {
+    throw new ApiError('FFMPEG_UNAVAILABLE', 'FFmpeg is not available on this server');
+  }
+  signal?.throwIfAborted();
+
+  let tempDir: string | null = null;
+  const subtitleInputs: SubtitleInput[] = [];
+  let chaptersInput: string | undefined;
+  if (subtitles.length > 0 || chapterMetadata) {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'merge-'));
+    for (const [i, subtitle] of subtitles.entries()) {
+      const input = path.join(tempDir, `subtitle${i}.srt`);
+      await writeFile(input, subtitle.srt);
+      subtitleInputs.push({ input, languageCode: subtitle.track.languageCode, title: subtitle.track.name });
+    }
+    if (chapterMetadata) {
+      chaptersInput = path.join(tempDir, 'chapters.txt');
+      await writeFile(chaptersInput, chapterMetadata);
+    }
+  }
+
+  // Don't start ffmpeg or open the streams for a request that was cancelled meanwhile
+  if (signal?.aborted) {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+    signal.throwIfAborted();
+  }
+
+  const args = buildMergeArgs({
+    videoInput: 'pipe:3',
+    audioInput: 'pipe:4',
+    output: 'pipe:1',
+    container,
+    copyAudio,
+    trim,
+    // The inputs are pipes, so there is no cheap way to find keyframes; clips are always
+    // re-encoded to start exactly where requested
+    reencodeVideo: Boolean(trim),
+    subtitles: subtitleInputs,
+    chaptersInput,
+    tags,
+    streaming: true,
+  });
+
+  const ffmpeg = spawn(ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...args], {
+    stdio: ['ignore', 'pipe', 'pipe', 'pipe', 'pipe'],
+  });
+
+  const videoStream = ytdl.downloadFromInfo(info, { format: videoFormat, requestOptions: STREAM_REQUEST_OPTIONS });
+  const audioStream = ytdl.downloadFromInfo(info, { format: audioFormat, requestOptions: STREAM_REQUEST_OPTIONS });
+  const videoPipe = ffmpeg.stdio[3] as Writable;
+  const audioPipe = ffmpeg.stdio[4] as Writable;
+  const output = ffmpeg.stdout as Readable;
+
+  const stop = (error?: Error) => {
+    videoStream.destroy();
+    audioStream.destroy();
+    ffmpeg.kill('SIGKILL');
+    if (error) {
+      output.destroy(error);
+    }
+  };
+
+  // ffmpeg may close its inputs early (e.g. -shortest); that is not an error
+  videoPipe.on('error', () => undefined);
+  audioPipe.on('error', () => undefined);
+  videoStream.on('error', (error) => stop(error));
+  audioStream.on('error', (error) => stop(error));
+  videoStream.pipe(videoPipe);
+  audioStream.pipe(audioPipe);
+
+  let stderr = '';
+  (ffmpeg.stderr as Readable).on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  ffmpeg.on('error', (error) => stop(new ApiError('FFMPEG_UNAVAILABLE', error.message)));
+  const abort = () => stop();
+  signal?.addEventListener('abort', abort, { once: true });
+  ffmpeg.on('close', (code) => {
+    signal?.removeEventListener('abort', abort);
+    if (tempDir) {
+      rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+    if (code !== 0 && !signal?.aborted) {
+      output.destroy(new ApiError('MERGE_FAILED', stderr.trim() || `ffmpeg exited with code ${code}`));
+    }
+  });
+
+  return output;
+}
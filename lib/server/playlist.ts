@@ -0,0 +1,164 @@
+import type { PlaylistEntry, PlaylistInfo } from '@/types/video';
+import { formatDuration } from '@/lib/formats';
+import { ApiError } from '@/lib/errors';
+
+// ytdl-core has no playlist support, so playlists are resolved by reading the
+// `ytInitialData` blob embedded in the playlist page and following its continuations.
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+};
+
+// Upper bound on entries returned for one playlist (channels can have thousands of uploads)
+export const MAX_PLAYLIST_ENTRIES = 500;
+
+interface PageState {
+  entries: PlaylistEntry[];
+  continuation?: string;
+}
+
+async function fetchPage(url: string): Promise<string> {
+  const response = await fetch(url, { headers: REQUEST_HEADERS });
+  if (response.status === 404) {
+    throw new ApiError('PLAYLIST_NOT_FOUND', 'Playlist or channel not found');
+  }
+  if (!response.ok) {
+    throw new ApiError('FETCH_ERROR', `YouTube responded with ${response.status}`);
+  }
+  return response.text();
+}
+
+function extractInitialData(html: string): any {
+  const match = html.match(/var ytInitialData = (\{.*?\});<\/script>/s);
+  if (!match) {
+    return null;
+  }
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+// Walk the renderer tree collecting playlist videos and the next continuation token
+function collectEntries(node: any, state: PageState): void {
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      collectEntries(child, state);
+    }
+    return;
+  }
+
+  const renderer = node.playlistVideoRenderer;
+  if (renderer) {
+    // Deleted and private videos stay in the list but cannot be played
+    if (renderer.videoId && renderer.isPlayable !== false) {
+      const duration = parseInt(renderer.lengthSeconds || '0', 10);
+      const thumbnails = renderer.thumbnail?.thumbnails || [];
+      state.entries.push({
+        videoId: renderer.videoId,
+        title: renderer.title?.runs?.[0]?.text || renderer.title?.simpleText || 'Untitled',
+        author: renderer.shortBylineText?.runs?.[0]?.text || 'Unknown',
+        thumbnail:
+          thumbnails[thumbnails.length - 1]?.url ||
+          `https://img.youtube.com/vi/${renderer.videoId}/hqdefault.jpg`,
+        duration,
+        durationFormatted: formatDuration(duration),
+        index: state.entries.length + 1,
+      });
+    }
+    return;
+  }
+
+  const token = node.continuationItemRenderer?.continuationEndpoint?.continuationCommand?.token;
+  if (token) {
+    state.continuation = token;
+    return;
+  }
+
+  for (const key of Object.keys(node)) {
+    collectEntries(node[key], state);
+  }
+}
+
+async function fetchContinuation(token: string, apiKey: string, clientVersion: string): Promise<any> {
+  const response = await fetch(`https://www.youtube.com/youtubei/v1/browse?key=${apiKey}`, {
+    method: 'POST',
+    headers: {
+      ...REQUEST_HEADERS,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      context: { client: { clientName: 'WEB', clientVersion } },
+      continuation: token,
+    }),
+  });
+  if (!response.ok) {
+    throw new ApiError('FETCH_ERROR', `YouTube responded with ${response.status} while paging the playlist`);
+  }
+  return response.json();
+}
+
+// Resolve a playlist ID into its ordered list of playable entries
+export async function fetchPlaylist(playlistId: string): Promise<PlaylistInfo> {
+  const html = await fetchPage(`https://www.youtube.com/playlist?list=${encodeURIComponent(playlistId)}`);
+  const data = extractInitialData(html);
+  if (!data || data.alerts?.some((alert: any) => alert.alertRenderer?.type === 'ERROR')) {
+    throw new ApiError('PLAYLIST_NOT_FOUND', 'This playlist does not exist or is private');
+  }
+
+  const state: PageState = { entries: [] };
+  collectEntries(data.contents, state);
+
+  // Pages after the first are loaded through the InnerTube API, like the site does on scroll
+  const apiKey = html.match(/"INNERTUBE_API_KEY":"([^"]+)"/)?.[1];
+  const clientVersion = html.match(/"INNERTUBE_CLIENT_VERSION":"([^"]+)"/)?.[1];
+  while (state.continuation && apiKey && clientVersion && state.entries.length < MAX_PLAYLIST_ENTRIES) {
+    const token = state.continuation;
+    state.continuation = undefined;
+    collectEntries(await fetchContinuation(token, apiKey, clientVersion), state);
+  }
+
+  const metadata = data.metadata?.playlistMetadataRenderer;
+  const header = data.header?.playlistHeaderRenderer;
+
+  return {
+    playlistId,
+    title: metadata?.title || header?.title?.simpleText || 'Untitled playlist',
+    author: header?.ownerText?.runs?.[0]?.text || state.entries[0]?.author || 'Unknown',
+    entries: state.entries.slice(0, MAX_PLAYLIST_ENTRIES),
+  };
+}
+
+// Resolve a channel path (`/@handle`, `/channel/UC...`, `/c/...`, `/user/...`) to the
+// ID of its uploads playlist, which is the channel ID with a `UU` prefix instead of `UC`
+export async function resolveChannelUploads(channelPath: string): Promise<string> {
+  let channelId = channelPath.match(/^\/channel\/(UC[a-zA-Z0-9_-]{22})$/)?.[1];
+
+  if (!channelId) {
+    let html: string;
+    try {
+      html = await fetchPage(`https://www.youtube.com${channelPath}`);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'PLAYLIST_NOT_FOUND') {
+        throw new ApiError('CHANNEL_NOT_FOUND', 'Channel not found');
+      }
+      throw error;
+    }
+    channelId =
+      html.match(/"externalId":"(UC[a-zA-Z0-9_-]{22})"/)?.[1] ||
+      html.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[a-zA-Z0-9_-]{22})"/)?.[1];
+  }
+
+  if (!channelId) {
+    throw new ApiError('CHANNEL_NOT_FOUND', 'Could not resolve the channel ID');
+  }
+
+  return `UU${channelId.slice(2)}`;
+}
@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { DownloadProgress } from '@/types/video';
+import type { ProgressEnd } from '@/types/api';
+import { toApiError } from '@/lib/errors';
+import { TransferRate } from '@/lib/transferRate';
+import { RedisRest } from '@/lib/server/redis';
+
+// Live progress for streaming requests, pushed to the client over /api/progress
+// (Server-Sent Events). The client makes up an id, subscribes to it and passes it as
+// `progressId` to /api/download or /api/merge, which publish their stages, bytes sent,
+// speed and time remaining under it.
+//
+// By default channels live in memory, so both requests have to reach the same process:
+// fine for `next start`, but on serverless platforms each route runs in its own instances
+// and the events never arrive (the client then stops waiting; see
+// lib/client/serverProgress.ts). There, set PROGRESS_BACKEND=redis to keep each channel's
+// latest message in the Redis REST endpoint given by INFO_CACHE_REDIS_URL and
+// INFO_CACHE_REDIS_TOKEN, which subscribers poll.
+
+export const PROGRESS_ID_PATTERN = /^[a-zA-Z0-9_-]{8,64}$/;
+
+export type ProgressMessage =
+  | { event: 'progress'; data: DownloadProgress }
+  | { event: 'end'; data: ProgressEnd };
+
+type Listener = (message: ProgressMessage) => void;
+
+interface ProgressStore {
+  // Resolves once the message is stored
+  publish(id: string, message: ProgressMessage): Promise<void>;
+  // Listen to a channel, starting with its latest message; returns the unsubscribe function
+  subscribe(id: string, listener: Listener): () => void;
+}
+
+interface Channel {
+  // Replayed to late subscribers
+  last?: ProgressMessage;
+  listeners: Set<Listener>;
+  usedAt: number;
+}
+
+// Channels without listeners are dropped after this long
+const CHANNEL_IDLE_MS = 5 * 60 * 1000;
+// Transfer updates are published at most this often
+const TRANSFER_INTERVAL = 500;
+// How often Redis subscribers look for a new message
+const REDIS_POLL_INTERVAL = 1000;
+
+// Without a subscriber, publishing costs nothing
+class MemoryProgressStore implements ProgressStore {
+  private channels = new Map<string, Channel>();
+
+  private getChannel(id: string): Channel {
+    const now = Date.now();
+    for (const [key, channel] of this.channels) {
+      if (channel.listeners.size === 0 && now - channel.usedAt > CHANNEL_IDLE_MS) {
+        this.channels.delete(key);
+      }
+    }
+
+    let channel = this.channels.get(id);
+    if (!channel) {
+      channel = { listeners: new Set(), usedAt: now };
+      this.channels.set(id, channel);
+    }
+    channel.usedAt = now;
+    return channel;
+  }
+
+  async publish(id: string, message: ProgressMessage) {
+    const channel = this.getChannel(id);
+    channel.last = message;
+    channel.listeners.forEach((listener) => listener(message));
+  }
+
+  subscribe(id: string, listener: Listener): () => void {
+    const channel = this.getChannel(id);
+    if (channel.last) {
+      listener(channel.last);
+    }
+    channel.listeners.add(listener);
+    return () => {
+      channel.listeners.delete(listener);
+      channel.usedAt = Date.now();
+    };
+  }
+}
+
+// Each channel is one key holding its latest message, expiring once the channel goes quiet
+class RedisProgressStore implements ProgressStore {
+  private redis: RedisRest;
+  // Writes to one channel are chained so an older message never overwrites a newer one
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(url: string, token?: string) {
+    this.redis = new RedisRest(url, token);
+  }
+
+  publish(id: string, message: ProgressMessage) {
+    const write = (this.writes.get(id) || Promise.resolve())
+      .then(() => this.redis.command(['SET', `ytdl-progress:${id}`, JSON.stringify(message), 'EX', CHANNEL_IDLE_MS / 1000]))
+      .catch((error) => console.warn(`Failed to publish progress ${id}:`, error));
+    this.writes.set(id, write);
+    return write.then(() => {
+      if (this.writes.get(id) === write) {
+        this.writes.delete(id);
+      }
+    });
+  }
+
+  subscribe(id: string, listener: Listener): () => void {
+    let stopped = false;
+    let last: string | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const value: string | null = await this.redis.command(['GET', `ytdl-progress:${id}`]);
+        if (!stopped && value && value !== last) {
+          last = value;
+          listener(JSON.parse(value));
+        }
+      } catch (error) {
+        console.warn(`Failed to read progress ${id}:`, error);
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, REDIS_POLL_INTERVAL);
+      }
+    };
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+}
+
+function createStore(): ProgressStore {
+  const backend = process.env.PROGRESS_BACKEND || 'memory';
+  if (backend === 'redis') {
+    const url = process.env.INFO_CACHE_REDIS_URL;
+    if (url) {
+      return new RedisProgressStore(url, process.env.INFO_CACHE_REDIS_TOKEN);
+    }
+    console.warn('PROGRESS_BACKEND is redis but INFO_CACHE_REDIS_URL is not set; keeping progress in memory');
+  } else if (backend !== 'memory') {
+    console.warn(`Unknown PROGRESS_BACKEND "${backend}"; keeping progress in memory`);
+  }
+  return new MemoryProgressStore();
+}
+
+let store: ProgressStore | null = null;
+
+function getStore(): ProgressStore {
+  store ??= createStore();
+  return store;
+}
+
+function publish(id: string, message: ProgressMessage): Promise<void> {
+  return getStore().publish(id, message);
+}
+
+// Listen to a channel, starting with its latest message; returns the unsubscribe function
+export function subscribeProgress(id: string, listener: Listener): () => void {
+  return getStore().subscribe(id, listener);
+}
+
+// Publishes one request's progress; does nothing when the request has no progress id
+export class RequestProgress {
+  private current: DownloadProgress = { stage: 'fetching', progress: 0 };
+  private ended = false;
+  // Size of the response when the Content-Length header doesn't give it, e.g. an estimate
+  expectedBytes?: number;
+
+  constructor(private id: string | null) {}
+
+  report(progress: DownloadProgress) {
+    this.current = progress;
+    if (this.id && !this.ended) {
+      publish(this.id, { event: 'progress', data: progress });
+    }
+  }
+
+  // Resolves once the end is stored; serverless functions can be frozen right after the
+  // response, so it is awaited before finishing it
+  async end(error?: unknown) {
+    if (this.id && !this.ended) {
+      this.ended = true;
+      const data: ProgressEnd = {};
+      if (error) {
+        const { code, message } = toApiError(error, 'INTERNAL_ERROR');
+        data.error = { code, message };
+      }
+      await publish(this.id, { event: 'end', data });
+    }
+  }
+
+  // Pass `body` through, publishing bytes sent under the last reported stage; ends the
+  // channel once the body is done, failed or cancelled
+  track(body: ReadableStream<Uint8Array>, totalBytes: number | null): ReadableStream<Uint8Array> {
+    const reader = body.getReader();
+    const rate = new TransferRate(totalBytes);
+    let sent = 0;
+    let lastReport = 0;
+
+    return new ReadableStream({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            await this.end();
+            controller.close();
+            return;
+          }
+          sent += value.byteLength;
+          const now = Date.now();
+          const stats = rate.update(sent, now);
+          if (now - lastReport >= TRANSFER_INTERVAL) {
+            lastReport = now;
+            this.report({
+              ...this.current,
+              progress: totalBytes ? Math.min(99, (sent / totalBytes) * 100) : this.current.progress,
+              ...stats,
+            });
+          }
+          controller.enqueue(value);
+        } catch (error) {
+          await this.end(error);
+          controller.error(error);
+        }
+      },
+      cancel: async (reason) => {
+        await this.end();
+        return reader.cancel(reason);
+      },
+    });
+  }
+}
+
+// Run a streaming handler with progress reporting under the request's `progressId`. The
+// handler reports its stages; the response body is then tracked until it has been sent.
+export async function withProgress(
+  request: NextRequest,
+  handler: (progress: RequestProgress) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const requested = request.nextUrl.searchParams.get('progressId');
+  const id = requested && PROGRESS_ID_PATTERN.test(requested) ? requested : null;
+  const progress = new RequestProgress(id);
+
+  let response: NextResponse;
+  try {
+    response = await handler(progress);
+  } catch (error) {
+    await progress.end(error);
+    throw error;
+  }
+
+  if (!id || !response.body) {
+    await progress.end();
+    return response;
+  }
+  const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+  const totalBytes = contentLength > 0 ? contentLength : progress.expectedBytes ?? null;
+  return new NextResponse(progress.track(response.body, totalBytes), {
+    status: response.status,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors';
+import { authenticateRequest } from '@/lib/server/apiKeys';
+
+// Rate limiting for the public API. Each client (an API key, or the IP address without
+// one) gets a token bucket per route, and long-running streams are capped per client.
+// State is kept in memory, so limits apply per server instance.
+//
+// Requests with a valid API key (see apiKeys.ts) get their own, larger budget instead of
+// sharing their IP's. RATE_LIMIT_MAX_STREAMS sets the concurrent /api/download and
+// /api/merge responses per client.
+//
+// A client's IP address is only known from headers a proxy in front of the app sets, and
+// without one a client can send any value it likes. So addresses are read only when
+// RATE_LIMIT_IP_HEADER names the header the proxy overwrites (x-real-ip on Vercel), or
+// RATE_LIMIT_PROXY_HOPS counts the proxies that append to X-Forwarded-For. With neither,
+// requests without an API key are not limited.
+
+export interface BucketLimit {
+  // Burst size
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// Keyed clients get this many times the anonymous limits
+const API_KEY_MULTIPLIER = 10;
+
+// Segmented downloads fetch each stream in many ranges, so /api/download allows far more
+// requests than the routes that hit YouTube's watch page
+export const ROUTE_LIMITS: Record<string, BucketLimit> = {
+  info: { capacity: 30, refillPerSecond: 0.5 },
+  playlist: { capacity: 10, refillPerSecond: 0.1 },
+  captions: { capacity: 30, refillPerSecond: 0.5 },
+  thumbnail: { capacity: 60, refillPerSecond: 1 },
+  download: { capacity: 120, refillPerSecond: 2 },
+  merge: { capacity: 5, refillPerSecond: 0.05 },
+  // Mostly status polling; the job queue itself limits how much work can be started
+  jobs: { capacity: 60, refillPerSecond: 1 },
+  // One connection per proxied download or server merge
+  progress: { capacity: 120, refillPerSecond: 2 },
+  // One request per finished or deleted download, plus a sync on page load
+  history: { capacity: 60, refillPerSecond: 1 },
+};
+
+const DEFAULT_LIMIT: BucketLimit = { capacity: 30, refillPerSecond: 0.5 };
+
+// Four connections per segmented download, two downloads at a time
+const DEFAULT_MAX_STREAMS = 8;
+// Streams rarely finish sooner than this
+const STREAM_RETRY_AFTER_SECONDS = 5;
+
+// Buckets idle long enough to have refilled are dropped this often
+const SWEEP_INTERVAL = 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: BucketLimit;
+}
+
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+  private lastSweep = Date.now();
+
+  // Take one token; when the bucket is empty, returns how many seconds until one refills
+  take(key: string, limit: BucketLimit, now = Date.now()): { allowed: boolean; retryAfter: number } {
+    this.sweep(now);
+
+    const bucket = this.buckets.get(key) || { tokens: limit.capacity, updatedAt: now, limit };
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfter: 0 };
+    }
+    return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / limit.refillPerSecond) };
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, bucket] of this.buckets) {
+      const refilled = bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.limit.refillPerSecond;
+      if (refilled >= bucket.limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+const limiter = new TokenBucketLimiter();
+const activeStreams = new Map<string, number>();
+let warnedUntrusted = false;
+
+// The client's address from the configured header, or the X-Forwarded-For entry the first
+// trusted proxy appended; null when neither is configured
+function getClientIp(request: NextRequest): string | null {
+  const header = process.env.RATE_LIMIT_IP_HEADER?.trim().toLowerCase();
+  const hops = parseInt(process.env.RATE_LIMIT_PROXY_HOPS || '', 10);
+  if (header) {
+    // Missing only on requests that bypassed the proxy, which then share one bucket
+    return request.headers.get(header)?.trim() || 'unknown';
+  }
+  if (hops > 0) {
+    // Each proxy appends the address it saw, so anything before the last `hops` entries
+    // came from the client
+    const forwarded = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    return forwarded[forwarded.length - hops] || 'unknown';
+  }
+  if (!warnedUntrusted) {
+    warnedUntrusted = true;
+    console.warn('Neither RATE_LIMIT_IP_HEADER nor RATE_LIMIT_PROXY_HOPS is set; not rate limiting by IP address');
+  }
+  return null;
+}
+
+// Who a request counts against: its API key, or its IP address; null when it has neither
+async function getClient(request: NextRequest): Promise<{ id: string; keyed: boolean } | null> {
+  const identity = await authenticateRequest(request);
+  if (identity) {
+    return { id: `key:${identity.id}`, keyed: true };
+  }
+  const ip = getClientIp(request);
+  return ip ? { id: `ip:${ip}`, keyed: false } : null;
+}
+
+function rateLimitedError(retryAfter: number, message?: string): ApiError {
+  return new ApiError('RATE_LIMITED', message || `Too many requests. Please try again in ${retryAfter} seconds`, {
+    'Retry-After': String(retryAfter),
+  });
+}
+
+// Count a request against the client's bucket for `route`; null when it may proceed
+export async function checkRateLimit(request: NextRequest, route: string): Promise<ApiError | null> {
+  const client = await getClient(request);
+  if (!client) {
+    return null;
+  }
+  const base = ROUTE_LIMITS[route] || DEFAULT_LIMIT;
+  const limit = client.keyed
+    ? { capacity: base.capacity * API_KEY_MULTIPLIER, refillPerSecond: base.refillPerSecond * API_KEY_MULTIPLIER }
+    : base;
+
+  const { allowed, retryAfter } = limiter.take(`${client.id}:${route}`, limit);
+  return allowed ? null : rateLimitedError(retryAfter);
+}
+
+function maxStreams(): number {
+  const configured = parseInt(process.env.RATE_LIMIT_MAX_STREAMS || '', 10);
+  return configured > 0 ? configured : DEFAULT_MAX_STREAMS;
+}
+
+// Pass `body` through, calling `release` once it has been read to the end, failed or
+// been cancelled by the client
+function releaseWhenDone(body: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// Run a streaming handler while holding one of the client's stream slots, which is held
+// until the response body has been sent
+export async function withStreamLimit(
+  request: NextRequest,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const client = await getClient(request);
+  if (!client) {
+    return handler();
+  }
+  const { id: clientId, keyed } = client;
+  const limit = maxStreams() * (keyed ? API_KEY_MULTIPLIER : 1);
+  const active = activeStreams.get(clientId) || 0;
+  if (active >= limit) {
+    throw rateLimitedError(
+      STREAM_RETRY_AFTER_SECONDS,
+      `Too many downloads at once (limit ${limit}). Please wait for one to finish`
+    );
+  }
+
+  activeStreams.set(clientId, active + 1);
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    const remaining = (activeStreams.get(clientId) || 1) - 1;
+    if (remaining > 0) {
+      activeStreams.set(clientId, remaining);
+    } else {
+      activeStreams.delete(clientId);
+    }
+  };
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  if (!response.body) {
+    release();
+    return response;
+  }
+  return new NextResponse(releaseWhenDone(response.body, release), {
+    status: response.status,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,25 @@
+// Redis over its REST interface (e.g. Upstash), so no client library or open connection
+// is needed on serverless deployments. Used by the info cache and progress channels.
+export class RedisRest {
+  constructor(private url: string, private token?: string) {}
+
+  async command(args: (string | number)[]): Promise<any> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(args),
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      throw new Error(`Redis responded with ${response.status}`);
+    }
+    const { result, error } = await response.json();
+    if (error) {
+      throw new Error(`Redis error: ${error}`);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,112 @@
+import ytdl from '@oreohq/ytdl-core';
+import type { Chapter, VideoFormat } from '@/types/video';
+import { ApiError } from '@/lib/errors';
+
+// Shared ytdl-core setup for the API routes
+
+// Headers for the watch page request made by ytdl.getInfo
+export const INFO_REQUEST_OPTIONS = {
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  },
+};
+
+// Headers for media stream requests (ytdl.downloadFromInfo and direct fetches)
+export const STREAM_REQUEST_OPTIONS = {
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+    'Referer': 'https://www.youtube.com/',
+    'Origin': 'https://www.youtube.com',
+    'Accept': '*/*',
+    'Accept-Language': 'en-US,en;q=0.9',
+  },
+};
+
+// Get video info using ytdl-core with requestOptions to avoid signature parsing errors.
+// Failures are thrown as ApiError.
+export async function getVideoInfo(videoId: string): Promise<ytdl.videoInfo> {
+  try {
+    return await ytdl.getInfo(videoId, { requestOptions: INFO_REQUEST_OPTIONS });
+  } catch (error: any) {
+    throw classifyInfoError(error);
+  }
+}
+
+// ytdl-core only reports failures through its messages, so this is the one place that
+// reads them
+function classifyInfoError(error: any): ApiError {
+  const message: string = error.message || '';
+
+  // Signature parsing errors (n transform function)
+  if (message.includes('n transform') || message.includes('signature') || message.includes('decipher')) {
+    console.error('Signature parsing error (this may be due to YouTube updates):', message);
+    return new ApiError(
+      'SIGNATURE_ERROR',
+      'YouTube signature parsing failed. This may be due to a YouTube update. Please try again later or update the ytdl-core library.'
+    );
+  }
+  if (message.includes('Private video') || message.includes('unavailable')) {
+    return new ApiError('VIDEO_UNAVAILABLE', 'This video is private or unavailable');
+  }
+  if (message.includes('Sign in to confirm your age')) {
+    return new ApiError('AGE_RESTRICTED', 'This video is age-restricted and cannot be downloaded');
+  }
+  if (message.includes('Video unavailable')) {
+    return new ApiError('VIDEO_NOT_FOUND', 'Video not found. Please check the URL and try again');
+  }
+  if (error.statusCode === 429 || message.includes('rate limit')) {
+    return new ApiError('RATE_LIMITED', 'YouTube is rate limiting this server. Please try again in a few moments');
+  }
+
+  console.error('Error fetching video info:', error);
+  return new ApiError('FETCH_ERROR', 'Failed to fetch video information. Please try again');
+}
+
+// Whether a stream request was refused by YouTube
+export function isForbiddenError(error: any): boolean {
+  return error?.statusCode === 403 || error?.cause?.statusCode === 403 || Boolean(error?.message?.includes('403'));
+}
+
+// Largest thumbnail, falling back to the static image URL
+export function getThumbnailUrl(info: ytdl.videoInfo): string {
+  const thumbnails = info.videoDetails.thumbnails;
+  return thumbnails[thumbnails.length - 1]?.url || `https://img.youtube.com/vi/${info.videoDetails.videoId}/maxresdefault.jpg`;
+}
+
+// Upload date as YYYY-MM-DD; YouTube sometimes includes a time
+export function getUploadDate(info: ytdl.videoInfo): string | null {
+  const date = info.videoDetails.uploadDate || info.videoDetails.publishDate;
+  return date ? date.slice(0, 10) : null;
+}
+
+// Chapters from the video description, in start order
+export function parseChapters(info: ytdl.videoInfo): Chapter[] {
+  return (info.videoDetails.chapters || [])
+    .map((chapter) => ({ title: chapter.title, start: chapter.start_time }))
+    .sort((a, b) => a.start - b.start);
+}
+
+// Parse format from ytdl-core format object
+export function parseFormat(format: ytdl.videoFormat): VideoFormat {
+  return {
+    itag: format.itag,
+    url: format.url,
+    mimeType: format.mimeType || '',
+    quality: format.quality || 'unknown',
+    qualityLabel: format.qualityLabel,
+    container: format.container || 'mp4',
+    hasVideo: format.hasVideo || false,
+    hasAudio: format.hasAudio || false,
+    videoCodec: format.videoCodec,
+    audioCodec: format.audioCodec,
+    width: format.width,
+    height: format.height,
+    fps: format.fps,
+    // YouTube labels HDR streams, e.g. "2160p60 HDR"
+    hdr: /\bHDR\b/.test(format.qualityLabel || ''),
+    bitrate: format.bitrate,
+    contentLength: format.contentLength,
+  };
+}
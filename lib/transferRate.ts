@@ -0,0 +1,60 @@
+import { formatDuration } from '@/lib/formats';
+
+// Transfer speed and time remaining from a running byte count, shared by the downloader
+// and the server's progress events. The speed is smoothed so one slow or fast chunk
+// doesn't make the estimate jump around.
+
+export interface TransferStats {
+  // Bytes per second
+  speed: number;
+  // Seconds remaining; unknown without a total size or before the speed is known
+  eta?: number;
+}
+
+// Weight of the latest sample in the smoothed speed
+const SMOOTHING = 0.3;
+// Samples closer together than this are merged, since chunk timing is noisy
+const MIN_SAMPLE_INTERVAL = 250;
+
+export class TransferRate {
+  private speed = 0;
+  private sampleBytes = 0;
+  private sampleTime: number | null = null;
+
+  constructor(private totalBytes?: number | null) {}
+
+  update(bytes: number, now = Date.now()): TransferStats {
+    if (this.sampleTime === null) {
+      this.sampleTime = now;
+      this.sampleBytes = bytes;
+    } else if (now - this.sampleTime >= MIN_SAMPLE_INTERVAL) {
+      const current = ((bytes - this.sampleBytes) / (now - this.sampleTime)) * 1000;
+      this.speed = this.speed === 0 ? current : this.speed * (1 - SMOOTHING) + current * SMOOTHING;
+      this.sampleTime = now;
+      this.sampleBytes = bytes;
+    }
+
+    const eta = this.totalBytes && this.speed > 0 ? Math.max(0, (this.totalBytes - bytes) / this.speed) : undefined;
+    return { speed: this.speed, eta };
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 || value >= 100 ? 0 : 1)} ${units[unit]}`;
+}
+
+// e.g. "2.4 MB/s · 1:05 left"
+export function formatTransfer({ speed, eta }: TransferStats): string {
+  const parts = [`${formatBytes(speed)}/s`];
+  if (eta !== undefined) {
+    parts.push(`${formatDuration(Math.ceil(eta))} left`);
+  }
+  return parts.join(' · ');
+}
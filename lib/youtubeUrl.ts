@@ -0,0 +1,68 @@
+// Helpers for recognising the different kinds of YouTube URLs a user may paste.
+// Shared by the API routes and the Downloader component.
+
+// Extract video ID from various YouTube URL formats
+export function extractVideoId(url: string): string | null {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/|youtube\.com\/v\/)([^&\n?#]+)/,
+    /^([a-zA-Z0-9_-]{11})$/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+// Extract playlist ID from a `list=` query parameter or a bare playlist ID
+export function extractPlaylistId(url: string): string | null {
+  const match = url.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+  if (match) {
+    return match[1];
+  }
+  if (/^(PL|UU|OL|FL)[a-zA-Z0-9_-]{10,}$/.test(url.trim())) {
+    return url.trim();
+  }
+  return null;
+}
+
+// Extract the channel path (e.g. `/@handle`, `/channel/UC...`) from a channel URL
+export function extractChannelPath(url: string): string | null {
+  const match = url.match(/youtube\.com(\/(?:@[^/?#]+|channel\/UC[a-zA-Z0-9_-]{22}|c\/[^/?#]+|user\/[^/?#]+))/);
+  return match ? match[1] : null;
+}
+
+// A collection is a playlist page or a channel. A watch URL that also carries `list=`
+// is treated as a single video, since that is the video the user was looking at.
+export function isCollectionUrl(url: string): boolean {
+  if (/youtube\.com\/playlist\?/.test(url)) {
+    return extractPlaylistId(url) !== null;
+  }
+  if (extractVideoId(url)) {
+    return false;
+  }
+  return extractPlaylistId(url) !== null || extractChannelPath(url) !== null;
+}
+
+// Extract the start time from `t=` (e.g. `90`, `90s`, `1m30s`, `1h2m3s`) or `start=`, in seconds
+export function extractStartTime(url: string): number | null {
+  const match = url.match(/[?&#](?:t|start)=([0-9hms]+)/);
+  if (!match) {
+    return null;
+  }
+
+  const value = match[1];
+  if (/^\d+s?$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const parts = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!parts || !parts[0]) {
+    return null;
+  }
+  return parseInt(parts[1] || '0', 10) * 3600 + parseInt(parts[2] || '0', 10) * 60 + parseInt(parts[3] || '0', 10);
+}
@@ -1,19 +1,33 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
-  
-  // Headers for CORS support
+
+  // Keep ffmpeg-static unbundled so it can resolve the path to its binary
+  serverExternalPackages: ['ffmpeg-static'],
+
+  // CORS headers for the API are set per request by proxy.ts
+
   async headers() {
-    return [
+    const headers = [
+      // The FFmpeg core lives under its version (see scripts/copy-ffmpeg-core.mjs)
       {
-        source: '/api/:path*',
-        headers: [
-          { key: 'Access-Control-Allow-Origin', value: '*' },
-          { key: 'Access-Control-Allow-Methods', value: 'GET,OPTIONS,PATCH,DELETE,POST,PUT' },
-          { key: 'Access-Control-Allow-Headers', value: 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version' },
-        ],
+        source: '/ffmpeg/:version/:path*',
+        headers: [{ key: 'Cache-Control', value: 'public, max-age=31536000, immutable' }],
       },
     ];
+
+    // CROSS_ORIGIN_ISOLATION=1 isolates the pages so the browser can use the
+    // multi-threaded FFmpeg core. `credentialless` still lets YouTube thumbnails load.
+    if (process.env.CROSS_ORIGIN_ISOLATION === '1') {
+      headers.push({
+        source: '/:path*',
+        headers: [
+          { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+          { key: 'Cross-Origin-Embedder-Policy', value: 'credentialless' },
+        ],
+      });
+    }
+    return headers;
   },
 
   // Turbopack configuration (Next.js 16+ uses Turbopack by default)
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors';
+import { errorResponse } from '@/lib/server/errors';
+import { checkRateLimit } from '@/lib/server/rateLimit';
+import { API_KEY_HEADER, authenticateRequest } from '@/lib/server/apiKeys';
+
+// Runs before every API route: rejects cross-origin requests from origins that aren't
+// allowed, answers CORS preflights, requires an API key for the versioned /api/v1 routes
+// and applies the per-client rate limits.
+//
+// ALLOWED_ORIGINS is a comma-separated list of extra origins (e.g. https://example.com)
+// that may call the API from a browser; the app's own origin is always allowed.
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': `Range, Content-Type, Authorization, ${API_KEY_HEADER}`,
+  'Access-Control-Expose-Headers': `Content-Length, Content-Range, Accept-Ranges, Retry-After, X-Cache`,
+};
+
+function isAllowedOrigin(origin: string, request: NextRequest): boolean {
+  try {
+    if (new URL(origin).host === (request.headers.get('x-forwarded-host') || request.headers.get('host'))) {
+      return true;
+    }
+  } catch {
+    return false;
+  }
+  const allowed = (process.env.ALLOWED_ORIGINS || '').split(',').map((value) => value.trim().replace(/\/$/, ''));
+  return allowed.includes(origin);
+}
+
+function withCors(response: NextResponse, origin: string | null): NextResponse {
+  if (origin) {
+    response.headers.set('Access-Control-Allow-Origin', origin);
+    for (const [key, value] of Object.entries(CORS_HEADERS)) {
+      response.headers.set(key, value);
+    }
+  }
+  response.headers.append('Vary', 'Origin');
+  return response;
+}
+
+export async function proxy(request: NextRequest) {
+  // Browsers send Origin on cross-origin requests; scripts without one are still limited
+  const origin = request.headers.get('origin');
+  if (origin && !isAllowedOrigin(origin, request)) {
+    return errorResponse(new ApiError('ORIGIN_NOT_ALLOWED', 'Requests from this origin are not allowed'));
+  }
+
+  if (request.method === 'OPTIONS') {
+    const preflight = new NextResponse(null, { status: 204 });
+    preflight.headers.set('Access-Control-Max-Age', '86400');
+    return withCors(preflight, origin);
+  }
+
+  // /api/v1/info and /api/info share a bucket; admin routes check ADMIN_TOKEN themselves
+  const [, , first = '', second = ''] = request.nextUrl.pathname.split('/');
+  const versioned = first === 'v1';
+  const route = versioned ? second : first;
+
+  if (versioned && route !== 'admin' && !(await authenticateRequest(request))) {
+    const unauthorized = errorResponse(
+      new ApiError('UNAUTHORIZED', 'A valid API key is required. Send it as "Authorization: Bearer <key>"', {
+        'WWW-Authenticate': 'Bearer',
+      })
+    );
+    return withCors(unauthorized, origin);
+  }
+
+  const limited = await checkRateLimit(request, route);
+  return withCors(limited ? errorResponse(limited) : NextResponse.next(), origin);
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,69 @@
+// Serves downloads that the page streams to it chunk by chunk, so large files are written
+// to disk by the browser without ever being held in memory as a Blob. The page side is
+// in lib/client/fileSink.ts.
+
+const PREFIX = '/__download/';
+const downloads = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  // Pings only keep the worker alive
+  if (!data || data.type !== 'download') return;
+
+  const port = event.ports[0];
+  const stream = new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = ({ data: message }) => {
+          if (message.type === 'chunk') {
+            controller.enqueue(message.chunk);
+          } else if (message.type === 'close') {
+            controller.close();
+            port.close();
+          } else if (message.type === 'abort') {
+            controller.error(new Error('Download aborted'));
+            port.close();
+          }
+        };
+      },
+      // Ask the page for the next chunk only when the browser has taken the last one
+      pull() {
+        port.postMessage({ type: 'pull' });
+      },
+      cancel() {
+        port.postMessage({ type: 'cancel' });
+        port.close();
+      },
+    },
+    { highWaterMark: 1 }
+  );
+
+  downloads.set(data.id, { stream, contentType: data.contentType, disposition: data.disposition, size: data.size });
+  port.postMessage({ type: 'ready' });
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(PREFIX)) return;
+
+  const id = url.pathname.slice(PREFIX.length);
+  const download = downloads.get(id);
+  if (!download) {
+    event.respondWith(new Response('Download not found', { status: 404 }));
+    return;
+  }
+  downloads.delete(id);
+
+  const headers = {
+    'Content-Type': download.contentType,
+    'Content-Disposition': download.disposition,
+    'Content-Security-Policy': "default-src 'none'",
+  };
+  if (download.size) {
+    headers['Content-Length'] = String(download.size);
+  }
+  event.respondWith(new Response(download.stream, { headers }));
+});
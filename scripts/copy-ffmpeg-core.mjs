@@ -0,0 +1,62 @@
+// Copies the ffmpeg.wasm core from node_modules into public/ffmpeg/<version>/, so the
+// browser loads it from our own origin, and writes public/ffmpeg/manifest.json with the
+// files' URLs and Subresource Integrity hashes (see lib/client/ffmpeg.ts). Runs before
+// `npm run dev` and `npm run build`.
+//
+// @ffmpeg/core is single-threaded. @ffmpeg/core-mt is copied too when installed; it is
+// only used on cross-origin isolated pages.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const OUTPUT = path.join(root, 'public', 'ffmpeg');
+
+const CORES = {
+  single: { package: '@ffmpeg/core', files: { core: 'ffmpeg-core.js', wasm: 'ffmpeg-core.wasm' } },
+  multi: {
+    package: '@ffmpeg/core-mt',
+    files: { core: 'ffmpeg-core.js', wasm: 'ffmpeg-core.wasm', worker: 'ffmpeg-core.worker.js' },
+  },
+};
+
+// Directory of an installed package, or null when it isn't installed. The packages'
+// exports don't include package.json, so it can't be found through require.resolve.
+function packageDir(name) {
+  const dir = path.join(root, 'node_modules', name);
+  return fs.existsSync(path.join(dir, 'package.json')) ? dir : null;
+}
+
+function integrity(file) {
+  return `sha384-${crypto.createHash('sha384').update(fs.readFileSync(file)).digest('base64')}`;
+}
+
+const manifest = {};
+fs.rmSync(OUTPUT, { recursive: true, force: true });
+
+for (const [kind, core] of Object.entries(CORES)) {
+  const dir = packageDir(core.package);
+  if (!dir) {
+    if (kind === 'single') {
+      console.error(`${core.package} is not installed; run npm install`);
+      process.exit(1);
+    }
+    continue;
+  }
+
+  const { version } = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8'));
+  // Versioned directories can be cached forever
+  const target = path.join(OUTPUT, version, kind);
+  fs.mkdirSync(target, { recursive: true });
+
+  manifest[kind] = { version };
+  for (const [role, name] of Object.entries(core.files)) {
+    const destination = path.join(target, name);
+    fs.copyFileSync(path.join(dir, 'dist', 'esm', name), destination);
+    manifest[kind][role] = { url: `/ffmpeg/${version}/${kind}/${name}`, integrity: integrity(destination) };
+  }
+}
+
+fs.writeFileSync(path.join(OUTPUT, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`Copied the FFmpeg core to ${path.relative(root, OUTPUT)} (${Object.keys(manifest).join(', ')})`);
@@ -0,0 +1,409 @@
+// Generates public/openapi.json for the /api/v1 routes. Schemas are read from the
+// TypeScript types in types/, so the document follows them; run `npm run openapi`
+// after changing a response type or a route.
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const TYPE_FILES = ['types/video.ts', 'types/api.ts'].map((file) => path.join(root, file));
+const OUTPUT = path.join(root, 'public', 'openapi.json');
+
+// Types that become named schemas; everything else is inlined
+const SCHEMA_NAMES = [
+  'VideoInfo',
+  'VideoFormat',
+  'CaptionTrack',
+  'Chapter',
+  'PlaylistInfo',
+  'PlaylistEntry',
+  'ApiErrorResponse',
+  'ApiKeyInfo',
+  'CreatedApiKey',
+  'DownloadProgress',
+  'CreateJobRequest',
+  'JobOptions',
+  'Job',
+  'JobResult',
+];
+
+const program = ts.createProgram(TYPE_FILES, { strict: true, target: ts.ScriptTarget.ES2020 });
+const checker = program.getTypeChecker();
+const schemas = {};
+
+// Exported declarations of the type files by name
+const declarations = new Map();
+for (const file of TYPE_FILES) {
+  const source = program.getSourceFile(file);
+  for (const symbol of checker.getExportsOfModule(checker.getSymbolAtLocation(source))) {
+    declarations.set(symbol.name, symbol);
+  }
+}
+
+// The `//` comment above a declaration, as its description
+function commentFor(node) {
+  const text = node.getSourceFile().getFullText();
+  const ranges = ts.getLeadingCommentRanges(text, node.getFullStart()) || [];
+  const lines = ranges
+    .filter((range) => range.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map((range) => text.slice(range.pos + 2, range.end).trim());
+  return lines.length > 0 ? lines.join(' ') : undefined;
+}
+
+function schemaName(type) {
+  const name = type.aliasSymbol?.name || type.symbol?.name;
+  return SCHEMA_NAMES.includes(name) ? name : null;
+}
+
+function ref(name, type) {
+  if (!(name in schemas)) {
+    schemas[name] = {};
+    schemas[name] = inlineSchema(type);
+  }
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function schemaFor(type) {
+  const name = schemaName(type);
+  return name ? ref(name, type) : inlineSchema(type);
+}
+
+function inlineSchema(type) {
+  const { flags } = type;
+  if (flags & ts.TypeFlags.String) return { type: 'string' };
+  if (flags & ts.TypeFlags.Number) return { type: 'number' };
+  if (flags & (ts.TypeFlags.Boolean | ts.TypeFlags.BooleanLiteral)) {
+    return type.intrinsicName === 'true' || type.intrinsicName === 'false'
+      ? { type: 'boolean', enum: [type.intrinsicName === 'true'] }
+      : { type: 'boolean' };
+  }
+  if (type.isStringLiteral()) return { type: 'string', enum: [type.value] };
+  if (type.isNumberLiteral()) return { type: 'number', enum: [type.value] };
+
+  if (type.isUnion()) {
+    const members = type.types.filter((member) => !(member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)));
+    const nullable = members.length < type.types.length && type.types.some((member) => member.flags & ts.TypeFlags.Null);
+    let schema;
+    if (members.every((member) => member.flags & ts.TypeFlags.BooleanLiteral)) {
+      schema = { type: 'boolean' };
+    } else if (members.every((member) => member.isStringLiteral())) {
+      schema = { type: 'string', enum: members.map((member) => member.value) };
+    } else if (members.length === 1) {
+      schema = schemaFor(members[0]);
+    } else {
+      schema = { oneOf: members.map(schemaFor) };
+    }
+    return nullable ? (schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true }) : schema;
+  }
+
+  if (checker.isArrayType(type)) {
+    return { type: 'array', items: schemaFor(checker.getTypeArguments(type)[0]) };
+  }
+
+  // Objects, interfaces and intersections such as PlaylistEntry
+  const properties = {};
+  const required = [];
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration || property.declarations?.[0];
+    const propertySchema = { ...schemaFor(checker.getTypeOfSymbolAtLocation(property, declaration)) };
+    const description = declaration && commentFor(declaration);
+    properties[property.name] = description && !propertySchema.$ref ? { ...propertySchema, description } : propertySchema;
+    if (!(property.flags & ts.SymbolFlags.Optional)) {
+      required.push(property.name);
+    }
+  }
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+function named(name) {
+  const symbol = declarations.get(name);
+  if (!symbol) {
+    throw new Error(`No exported type ${name} in ${TYPE_FILES.join(', ')}`);
+  }
+  return ref(name, checker.getDeclaredTypeOfSymbol(symbol));
+}
+
+// `{ success: true, data }` around a named schema
+function success(data) {
+  return {
+    type: 'object',
+    properties: { success: { type: 'boolean', enum: [true] }, ...(data ? { data } : {}) },
+    required: data ? ['success', 'data'] : ['success'],
+  };
+}
+
+const errorResponse = (description) => ({
+  description,
+  content: { 'application/json': { schema: named('ApiErrorResponse') } },
+});
+
+const query = (name, description, schema = { type: 'string' }, required = false) => ({
+  name,
+  in: 'query',
+  required,
+  description,
+  schema,
+});
+
+const commonErrors = {
+  401: errorResponse('Missing or invalid API key (`UNAUTHORIZED`)'),
+  429: {
+    ...errorResponse('Rate limit or concurrent stream limit reached (`RATE_LIMITED`)'),
+    headers: { 'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } } },
+  },
+};
+
+const cacheHeader = {
+  'X-Cache': {
+    description: 'Whether the video info came from the server cache',
+    schema: { type: 'string', enum: ['HIT', 'MISS'] },
+  },
+};
+
+const videoId = query('videoId', 'YouTube video ID', { type: 'string', pattern: '^[a-zA-Z0-9_-]{11}$' }, true);
+const itag = query('itag', 'Format itag from /api/v1/info', { type: 'integer' }, true);
+const progressId = query('progressId', 'Publish progress under this id; follow it at /api/v1/progress', {
+  type: 'string',
+  pattern: '^[a-zA-Z0-9_-]{8,64}$',
+});
+const jobId = { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^[a-f0-9]{16}$' } };
+
+const paths = {
+  '/api/v1/info': {
+    get: {
+      summary: 'Video details, formats, captions and chapters',
+      parameters: [query('url', 'YouTube video URL or video ID', { type: 'string' }, true)],
+      responses: {
+        200: {
+          description: 'Video information',
+          headers: cacheHeader,
+          content: { 'application/json': { schema: success(named('VideoInfo')) } },
+        },
+        400: errorResponse('Missing or invalid URL, or a playlist URL'),
+        403: errorResponse('Private, unavailable or age-restricted video'),
+        404: errorResponse('Video not found'),
+        500: errorResponse('Signature or fetch error'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/playlist': {
+    get: {
+      summary: 'Entries of a playlist or channel uploads',
+      parameters: [query('url', 'Playlist or channel URL', { type: 'string' }, true)],
+      responses: {
+        200: { description: 'Playlist', content: { 'application/json': { schema: success(named('PlaylistInfo')) } } },
+        400: errorResponse('Invalid playlist or channel URL'),
+        404: errorResponse('Playlist or channel not found, or empty'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/download': {
+    get: {
+      summary: 'Stream one format through the server',
+      description: 'Supports byte ranges through the Range header or the start/end parameters.',
+      parameters: [
+        videoId,
+        itag,
+        query('start', 'First byte, inclusive', { type: 'integer', minimum: 0 }),
+        query('end', 'Last byte, inclusive', { type: 'integer', minimum: 0 }),
+        progressId,
+        { name: 'Range', in: 'header', required: false, schema: { type: 'string', example: 'bytes=0-1048575' } },
+      ],
+      responses: {
+        200: { description: 'The whole stream', headers: cacheHeader, content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+        206: { description: 'The requested range', headers: cacheHeader, content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+        400: errorResponse('Missing parameters or invalid range'),
+        403: errorResponse('YouTube refused the stream (`ACCESS_DENIED`)'),
+        404: errorResponse('Format not found or without a URL'),
+        416: errorResponse('Range outside the file'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/merge': {
+    get: {
+      summary: 'Mux a video-only format with the audio that pairs best with it on the server',
+      parameters: [
+        videoId,
+        itag,
+        query('audioItag', 'Audio format to merge with; the one that pairs best is used when left out', { type: 'integer' }),
+        query('container', 'Output container; chosen from the codecs when left out (H.264 and AAC in MP4, VP9 and Opus in WebM, other mixes in Matroska)', { type: 'string', enum: ['mp4', 'webm', 'mkv'] }),
+        query('start', 'Clip start in seconds', { type: 'number', minimum: 0 }),
+        query('end', 'Clip end in seconds', { type: 'number', minimum: 0 }),
+        query('captions', 'Comma-separated caption track ids to embed'),
+        query('chapters', 'Embed chapter markers', { type: 'string', enum: ['1'] }),
+        query('metadata', 'Tag the file with title, uploader, date and description', { type: 'string', enum: ['1'] }),
+        query('filename', 'Name for Content-Disposition'),
+        progressId,
+      ],
+      responses: {
+        200: { description: 'The merged file, streamed as it is produced', headers: cacheHeader, content: Object.fromEntries(['video/mp4', 'video/webm', 'video/x-matroska'].map((type) => [type, { schema: { type: 'string', format: 'binary' } }])) },
+        400: errorResponse('Missing parameters, invalid container or clip range'),
+        404: errorResponse('Format, audio or captions not found'),
+        501: errorResponse('FFmpeg is not available on this deployment'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/progress': {
+    get: {
+      summary: 'Follow the progress of a download or merge request as Server-Sent Events',
+      description:
+        'Subscribe before starting the request with the same `progressId`. `progress` events carry a DownloadProgress; ' +
+        'a final `end` event carries a ProgressEnd. The stream must reach the same server instance as the request.',
+      parameters: [query('id', 'The progressId passed to /api/v1/download or /api/v1/merge', { type: 'string', pattern: '^[a-zA-Z0-9_-]{8,64}$' }, true)],
+      responses: {
+        200: { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+        400: errorResponse('Missing or invalid id'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/captions': {
+    get: {
+      summary: 'One caption track as SRT, WebVTT or plain text',
+      parameters: [
+        videoId,
+        query('track', 'Caption track id from /api/v1/info', { type: 'string' }, true),
+        query('format', 'Output format', { type: 'string', enum: ['srt', 'vtt', 'txt'], default: 'srt' }),
+      ],
+      responses: {
+        200: { description: 'Captions', headers: cacheHeader, content: { 'text/plain': { schema: { type: 'string' } } } },
+        400: errorResponse('Missing parameters or invalid format'),
+        404: errorResponse('Caption track not found'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/thumbnail': {
+    get: {
+      summary: 'Proxy a YouTube thumbnail image',
+      parameters: [query('url', 'Thumbnail URL on a YouTube image host', { type: 'string' }, true)],
+      responses: {
+        200: { description: 'The image', content: { 'image/jpeg': { schema: { type: 'string', format: 'binary' } } } },
+        400: errorResponse('Missing URL or not a YouTube image host'),
+        404: errorResponse('Thumbnail not found'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/jobs': {
+    post: {
+      summary: 'Start a background download or server-side merge',
+      requestBody: { required: true, content: { 'application/json': { schema: named('CreateJobRequest') } } },
+      responses: {
+        202: {
+          description: 'The queued job; poll its status until it is complete',
+          headers: { Location: { description: 'URL of the job', schema: { type: 'string' } } },
+          content: { 'application/json': { schema: success(named('Job')) } },
+        },
+        400: errorResponse('Invalid body, video ID, itags, container or clip range, or merge options for a format saved as-is'),
+        404: errorResponse('Video or format not found'),
+        501: errorResponse('FFmpeg is not available on this deployment'),
+        503: errorResponse('Too many jobs waiting to start (`QUEUE_FULL`)'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/jobs/{id}': {
+    get: {
+      summary: 'Status and progress of a job',
+      parameters: [jobId],
+      responses: {
+        200: { description: 'The job', content: { 'application/json': { schema: success(named('Job')) } } },
+        404: errorResponse('No such job, or it has expired (`JOB_NOT_FOUND`)'),
+        ...commonErrors,
+      },
+    },
+    delete: {
+      summary: 'Cancel a queued or running job, or delete a finished one',
+      parameters: [jobId],
+      responses: {
+        200: { description: 'The job as it was cancelled or deleted', content: { 'application/json': { schema: success(named('Job')) } } },
+        404: errorResponse('No such job (`JOB_NOT_FOUND`)'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/jobs/{id}/result': {
+    get: {
+      summary: 'The file a complete job produced; supports Range requests',
+      parameters: [jobId],
+      responses: {
+        200: { description: 'The file', content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+        206: { description: 'The requested byte range', content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+        404: errorResponse('No such job (`JOB_NOT_FOUND`)'),
+        409: errorResponse('The job is not complete yet (`JOB_NOT_READY`)'),
+        416: errorResponse('Range outside the file'),
+        ...commonErrors,
+      },
+    },
+  },
+  '/api/v1/admin/keys': {
+    get: {
+      summary: 'List API keys',
+      security: [{ adminToken: [] }],
+      responses: {
+        200: { description: 'Keys, without their secrets', content: { 'application/json': { schema: success({ type: 'array', items: named('ApiKeyInfo') }) } } },
+        401: errorResponse('Missing or wrong admin token'),
+        404: errorResponse('ADMIN_TOKEN is not set (`ADMIN_DISABLED`)'),
+      },
+    },
+    post: {
+      summary: 'Create an API key',
+      security: [{ adminToken: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { name: { type: 'string', maxLength: 100 } }, required: ['name'] },
+          },
+        },
+      },
+      responses: {
+        201: { description: 'The new key; this is the only time it is shown', content: { 'application/json': { schema: success(named('CreatedApiKey')) } } },
+        400: errorResponse('Missing or invalid name (`INVALID_BODY`)'),
+        401: errorResponse('Missing or wrong admin token'),
+        404: errorResponse('ADMIN_TOKEN is not set (`ADMIN_DISABLED`)'),
+      },
+    },
+  },
+  '/api/v1/admin/keys/{id}': {
+    delete: {
+      summary: 'Revoke an API key created through this API',
+      security: [{ adminToken: [] }],
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      responses: {
+        200: { description: 'Revoked', content: { 'application/json': { schema: success() } } },
+        401: errorResponse('Missing or wrong admin token'),
+        404: errorResponse('No such key (`KEY_NOT_FOUND`) or admin disabled'),
+      },
+    },
+  },
+};
+
+const document = {
+  openapi: '3.0.3',
+  info: {
+    title: 'YouTube Video Downloader API',
+    version: '1.0.0',
+    description:
+      'Every response that is not a file is `{ success, data }` or `{ success: false, error, message }`, where `error` is one of ApiErrorCode.',
+  },
+  servers: [{ url: '/' }],
+  security: [{ apiKey: [] }],
+  paths,
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'http', scheme: 'bearer', description: 'API key from API_KEYS or /api/v1/admin/keys' },
+      adminToken: { type: 'http', scheme: 'bearer', description: 'The ADMIN_TOKEN of the deployment' },
+    },
+    schemas: Object.fromEntries(Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b))),
+  },
+};
+
+fs.writeFileSync(OUTPUT, `${JSON.stringify(document, null, 2)}\n`);
+console.log(`Wrote ${path.relative(root, OUTPUT)} with ${Object.keys(schemas).length} schemas`);
@@ -0,0 +1,173 @@
+import type { DownloadProgress, HistoryEntry } from './video';
+
+// Shapes shared by every API route and its clients. Routes answer
+// `{ success: true, data }` or `{ success: false, error, message }`.
+
+// Every value the `error` field can take
+export const API_ERROR_CODES = [
+  // Request validation
+  'MISSING_URL',
+  'MISSING_PARAMS',
+  'INVALID_URL',
+  'INVALID_VIDEO_ID',
+  'INVALID_FORMAT',
+  'INVALID_CONTAINER',
+  'INVALID_RANGE',
+  'INVALID_BODY',
+  'PLAYLIST_URL',
+  'RANGE_NOT_SATISFIABLE',
+  'WEBP_NOT_SUPPORTED',
+  // Access control
+  'UNAUTHORIZED',
+  'ORIGIN_NOT_ALLOWED',
+  'RATE_LIMITED',
+  'ADMIN_DISABLED',
+  'KEY_NOT_FOUND',
+  // YouTube
+  'SIGNATURE_ERROR',
+  'ACCESS_DENIED',
+  'VIDEO_UNAVAILABLE',
+  'VIDEO_NOT_FOUND',
+  'AGE_RESTRICTED',
+  'FORMAT_NOT_FOUND',
+  'NO_URL',
+  'NO_AUDIO',
+  'CAPTIONS_NOT_FOUND',
+  'THUMBNAIL_NOT_FOUND',
+  'PLAYLIST_NOT_FOUND',
+  'CHANNEL_NOT_FOUND',
+  'PLAYLIST_EMPTY',
+  'FETCH_ERROR',
+  // Processing
+  'DOWNLOAD_FAILED',
+  'FFMPEG_UNAVAILABLE',
+  'MERGE_FAILED',
+  'INTERNAL_ERROR',
+  // Background jobs
+  'JOB_NOT_FOUND',
+  'JOB_NOT_READY',
+  'QUEUE_FULL',
+  // History sync
+  'SYNC_DISABLED',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export interface ApiErrorResponse {
+  success: false;
+  error: ApiErrorCode;
+  message: string;
+}
+
+// An API key as listed by the admin route; the key itself is only shown once, on creation
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  // ISO 8601
+  createdAt: string;
+  // Keys from the API_KEYS environment variable can't be revoked through the API
+  source: 'config' | 'admin';
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string;
+}
+
+export interface ApiKeyListResponse {
+  success: boolean;
+  data?: ApiKeyInfo[];
+  error?: ApiErrorCode;
+  message?: string;
+}
+
+export interface ApiKeyResponse {
+  success: boolean;
+  data?: CreatedApiKey;
+  error?: ApiErrorCode;
+  message?: string;
+}
+
+// Body of POST /api/jobs
+export interface CreateJobRequest {
+  videoId: string;
+  // One format to save as-is, or a video-only format to merge with the best audio
+  itags: number[];
+  options?: JobOptions;
+}
+
+// The clip, captions, chapters and tags are applied when streams are merged on the server;
+// creating a job that saves one format as-is fails with INVALID_FORMAT when any of them is set
+export interface JobOptions {
+  // Output container when streams are merged; chosen from the codecs when left out
+  container?: 'mp4' | 'webm' | 'mkv';
+  // Clip range in seconds
+  start?: number;
+  end?: number;
+  // Caption track IDs to embed as soft subtitles
+  captions?: string[];
+  // Embed chapter markers
+  chapters?: boolean;
+  // Write title, uploader, date and description into the file
+  metadata?: boolean;
+  // Name to save the result under; defaults to the video title
+  filename?: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+export interface JobResult {
+  filename: string;
+  contentType: string;
+  // Bytes
+  size: number;
+  // Where to fetch the file from
+  url: string;
+}
+
+export interface Job {
+  id: string;
+  videoId: string;
+  itags: number[];
+  options: JobOptions;
+  status: JobStatus;
+  progress: DownloadProgress;
+  result?: JobResult;
+  error?: { code: ApiErrorCode; message: string };
+  // ISO 8601
+  createdAt: string;
+  updatedAt: string;
+  // When the job and its file are removed
+  expiresAt: string;
+}
+
+export interface JobResponse {
+  success: boolean;
+  data?: Job;
+  error?: ApiErrorCode;
+  message?: string;
+}
+
+// A synced download history. Deleted entries are remembered so another browser holding
+// them drops them instead of adding them back.
+export interface HistorySnapshot {
+  entries: HistoryEntry[];
+  // Ids of deleted entries
+  deleted: string[];
+}
+
+export interface HistorySyncRequest {
+  syncId: string;
+  entries: HistoryEntry[];
+}
+
+export interface HistoryResponse {
+  success: boolean;
+  data?: HistorySnapshot;
+  error?: ApiErrorCode;
+  message?: string;
+}
+
+// Last event on /api/progress, once the request it follows has finished
+export interface ProgressEnd {
+  error?: { code: ApiErrorCode; message: string };
+}
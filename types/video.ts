@@ -1,3 +1,5 @@
+import type { ApiErrorCode } from './api';
+
 export interface VideoFormat {
   itag: number;
   url: string;
@@ -12,10 +14,28 @@ export interface VideoFormat {
   width?: number;
   height?: number;
   fps?: number;
+  // High dynamic range (PQ or HLG) video
+  hdr?: boolean;
   bitrate?: number;
   contentLength?: string;
 }
 
+export interface CaptionTrack {
+  // YouTube's vssId: `.en` for an uploaded track, `a.en` for auto-generated captions
+  id: string;
+  languageCode: string;
+  name: string;
+  autoGenerated: boolean;
+}
+
+export type CaptionFormat = 'srt' | 'vtt' | 'txt';
+
+export interface Chapter {
+  title: string;
+  // Seconds from the start of the video
+  start: number;
+}
+
 export interface VideoInfo {
   videoId: string;
   title: string;
@@ -23,13 +43,39 @@ export interface VideoInfo {
   thumbnail: string;
   duration: number;
   durationFormatted: string;
+  // YYYY-MM-DD
+  uploadDate: string | null;
+  description: string;
   formats: VideoFormat[];
+  captions: CaptionTrack[];
+  chapters: Chapter[];
 }
 
 export interface VideoInfoResponse {
   success: boolean;
   data?: VideoInfo;
-  error?: string;
+  error?: ApiErrorCode;
+  message?: string;
+}
+
+// Playlist entries carry everything but the formats: signed format URLs expire and
+// resolving fifty of them up front would not fit in one request, so the full
+// VideoInfo for an entry is fetched when the download queue reaches it.
+export type PlaylistEntry = Omit<VideoInfo, 'formats' | 'captions' | 'chapters' | 'uploadDate' | 'description'> & {
+  index: number;
+};
+
+export interface PlaylistInfo {
+  playlistId: string;
+  title: string;
+  author: string;
+  entries: PlaylistEntry[];
+}
+
+export interface PlaylistInfoResponse {
+  success: boolean;
+  data?: PlaylistInfo;
+  error?: ApiErrorCode;
   message?: string;
 }
 
@@ -37,6 +83,101 @@ export interface DownloadProgress {
   stage: 'idle' | 'fetching' | 'downloading' | 'merging' | 'complete';
   progress: number;
   message?: string;
+  // Bytes per second and seconds remaining, while a transfer is under way
+  speed?: number;
+  eta?: number;
+}
+
+export type AudioTarget = 'mp3' | 'm4a' | 'opus' | 'flac';
+
+export interface AudioOptions {
+  target: AudioTarget;
+  // Kilobits per second; ignored for lossless targets
+  bitrate: number;
+}
+
+// A clip of the video, in seconds from the start
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+// Processing options chosen alongside the format
+export interface DownloadOptions {
+  // Applied when an audio-only format is downloaded
+  audio: AudioOptions;
+  trim?: TrimRange;
+  // Embedded as soft subtitles when the streams are merged in the browser
+  captions?: CaptionTrack[];
+  // Write chapter markers into the file, or save one file per chapter
+  chapterMode?: 'embed' | 'split';
+  // Write title, uploader, date, description, source URL and cover art into the file
+  embedMetadata?: boolean;
+  // See lib/filename.ts for the placeholders
+  filenameTemplate?: string;
+  // Position in the playlist, for the {index} placeholder
+  playlistIndex?: number;
+  // Write streams to disk as they arrive instead of buffering them in memory
+  streamToDisk?: boolean;
+  // Recover from failures by retrying with fresh links, then another format, then the server proxy
+  autoRetry?: boolean;
+  // Audio stream picked to merge with a video-only format; paired automatically when unset
+  audioItag?: number;
+  // Fetch streams through /api/download instead of straight from YouTube
+  viaProxy?: boolean;
+}
+
+// A file or folder picked with the File System Access API
+export type DownloadDestination =
+  | { kind: 'file'; handle: FileSystemFileHandle }
+  | { kind: 'directory'; handle: FileSystemDirectoryHandle };
+
+// What an attempt changes after the previous one failed; see lib/client/recovery.ts
+export type RecoveryStep = 'retry' | 'fallback' | 'proxy';
+
+// One try at a job, listed in the queue
+export interface DownloadAttempt {
+  step: 'initial' | RecoveryStep;
+  format: VideoFormat;
+  error?: { code: ApiErrorCode; message: string };
+}
+
+// A finished download, kept in the browser's history (see lib/client/history.ts)
+export interface HistoryEntry {
+  id: string;
+  videoId: string;
+  title: string;
+  thumbnail: string;
+  // Signed format URLs expire, so only the format's description is kept
+  format: Omit<VideoFormat, 'url'>;
+  // Set for audio-only downloads, which are transcoded to this target
+  audio?: AudioOptions;
+  filename: string;
+  // Estimated from the streams' sizes; unset when YouTube didn't report them
+  size?: number;
+  // ISO 8601
+  downloadedAt: string;
+}
+
+export type DownloadJobStatus = 'queued' | 'active' | 'complete' | 'failed' | 'cancelled';
+
+export interface DownloadJob {
+  id: string;
+  videoId: string;
+  title: string;
+  thumbnail: string;
+  // Null for playlist entries until the job starts and fetches fresh info
+  info: VideoInfo | null;
+  // The chosen format; for playlist entries, the reference format to match against
+  format: VideoFormat;
+  options: DownloadOptions;
+  // Where the result is written; unset jobs are saved through the browser's downloads
+  destination?: DownloadDestination;
+  status: DownloadJobStatus;
+  progress: DownloadProgress;
+  error?: { code: ApiErrorCode; message: string };
+  // Every try so far, including the automatic recovery ones
+  attempts?: DownloadAttempt[];
 }
 
 export type QualityOption = {